@@ -0,0 +1,27 @@
+import { ethers } from 'ethers';
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+/**
+ * Shared JSON-RPC provider. Point RPC_URL at http://127.0.0.1:8545 to run
+ * against a local Hardhat node.
+ */
+export const getProvider = (): ethers.JsonRpcProvider => {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(
+      process.env.RPC_URL || process.env.POLYGON_RPC_URL || 'http://127.0.0.1:8545'
+    );
+  }
+  return provider;
+};
+
+/**
+ * Contract addresses, read lazily so dotenv has loaded by the time they are used
+ */
+export const getContractAddresses = () => ({
+  taskToken: process.env.TASK_TOKEN_ADDRESS || '',
+  reputationNFT: process.env.REPUTATION_NFT_ADDRESS || '',
+  taskManager: process.env.TASK_MANAGER_ADDRESS || '',
+  gamification: process.env.GAMIFICATION_ADDRESS || '',
+  dao: process.env.DAO_ADDRESS || '',
+});
@@ -0,0 +1,42 @@
+// Human-readable ABI fragments for the Task Chainz contracts.
+// Only the functions and events the backend reads or encodes are listed here.
+
+export const TASK_MANAGER_ABI = [
+  'event TaskCreated(uint256 indexed taskId, address indexed creator, uint256 bounty, uint8 category, string ipfsHash)',
+  'event TaskAssigned(uint256 indexed taskId, address indexed worker)',
+  'event TaskSubmitted(uint256 indexed taskId, string submissionHash)',
+  'event TaskCompleted(uint256 indexed taskId, address indexed worker, uint256 payment)',
+  'event TaskCancelled(uint256 indexed taskId)',
+  'event TaskDisputed(uint256 indexed taskId, address indexed disputant)',
+  'event DisputeResolved(uint256 indexed taskId, address indexed winner, uint256 payment)',
+  'function createTask(string ipfsHash, uint256 bounty, uint256 deadline, uint8 category, uint256 requiredReputation, bool isUrgent) returns (uint256)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function getUserCreatedTasks(address user) view returns (uint256[])',
+  'function getUserAssignedTasks(address user) view returns (uint256[])',
+  'function tasks(uint256 taskId) view returns (uint256 id, address creator, address worker, string ipfsHash, uint256 bounty, uint256 deadline, uint8 status, uint8 category, uint256 createdAt, uint256 completedAt, string submissionHash, uint256 requiredReputation, bool isUrgent)',
+];
+
+export const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function balanceOf(address account) view returns (uint256)',
+];
+
+export const REPUTATION_NFT_ABI = [
+  'function getUserTokenId(address user) view returns (uint256)',
+  'function getReputationData(address user) view returns (uint256 score, uint8 tier, uint256 tasksCompleted, uint256 tasksCreated, uint256 totalEarned, uint256 disputesWon, uint256 disputesLost)',
+  'function hasAchievement(address user, bytes32 achievementId) view returns (bool)',
+  'function achievements(bytes32 achievementId) view returns (string name, string description, uint256 requiredScore, bool exists)',
+];
+
+export const GAMIFICATION_ABI = [
+  'function userStreaks(address user) view returns (uint256 currentStreak, uint256 longestStreak, uint256 lastTaskDate, uint256 totalBonusEarned)',
+  'function referrals(address user) view returns (address referrer, uint256 totalReferred, uint256 referralEarnings)',
+  'function getUserReferrals(address user) view returns (address[])',
+];
+
+export const DAO_ABI = [
+  'event DisputeProposalCreated(uint256 indexed proposalId, uint256 indexed taskId, address creator, address worker)',
+  'function getDisputeProposal(uint256 proposalId) view returns (uint256 taskId, address creator, address worker, string ipfsHash, bool resolved, bool favorCreator)',
+  'function state(uint256 proposalId) view returns (uint8)',
+];
@@ -6,6 +6,14 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
+import { optionalAuth, requireAuth } from './middleware/auth';
+import aiUsage from './services/aiUsage';
+import claudeAI from './services/claudeAI';
+import fraudScoring from './services/fraudScoring';
+import recommendations from './services/recommendations';
+import taskIndexer from './services/taskIndexer';
+import taskSearch from './services/taskSearch';
+import userProfile from './services/userProfile';
 
 // Routes
 import taskRoutes from './routes/tasks';
@@ -13,8 +21,12 @@ import userRoutes from './routes/users';
 import analyticsRoutes from './routes/analytics';
 import ipfsRoutes from './routes/ipfs';
 import aiRoutes from './routes/ai';
+import authRoutes from './routes/auth';
+import disputeRoutes from './routes/disputes';
+import moderationRoutes from './routes/moderation';
 
 dotenv.config();
+claudeAI.init();
 
 const app: Express = express();
 const PORT = process.env.PORT || 4000;
@@ -30,8 +42,8 @@ app.use(morgan('combined'));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Rate limiting
-app.use('/api/', rateLimiter);
+// Rate limiting (per wallet when a session token is present, otherwise per IP)
+app.use('/api/', optionalAuth, rateLimiter);
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
@@ -39,11 +51,14 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 // API Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/moderation', moderationRoutes);
 app.use('/api/ipfs', ipfsRoutes);
-app.use('/api/ai', aiRoutes);
+app.use('/api/ai', requireAuth, aiRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -52,6 +67,18 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   console.log(`🚀 Task Chainz backend running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV}`);
+
+  aiUsage.load().catch((error) => {
+    console.error('Failed to load AI usage records:', error);
+  });
+  userProfile.attach(taskIndexer);
+  fraudScoring.attach(taskIndexer);
+  taskIndexer
+    .start()
+    .then(() => Promise.all([taskSearch.attach(taskIndexer), recommendations.attach(taskIndexer)]))
+    .catch((error) => {
+      console.error('Failed to start task indexer:', error);
+    });
 });
 
 export default app;
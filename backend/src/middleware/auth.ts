@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import accessControl from '../services/accessControl';
+import authService from '../services/auth';
+import { AppError } from './errorHandler';
+
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim();
+};
+
+/**
+ * Reject requests without a valid SIWE session token
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  try {
+    req.user = authService.verifyToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Attach the session when a valid token is present, without requiring one
+ */
+export const optionalAuth = (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+  if (token) {
+    try {
+      req.user = authService.verifyToken(token);
+    } catch {
+      // Treat an invalid token like an anonymous request
+    }
+  }
+  next();
+};
+
+/**
+ * Require a session whose wallet holds ADMIN_ROLE on TaskManager
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  requireAuth(req, res, (error?: unknown) => {
+    if (error) {
+      return next(error);
+    }
+    accessControl
+      .isAdmin(req.user!.address)
+      .then((isAdmin) => next(isAdmin ? undefined : new AppError('Admin role required', 403)))
+      .catch(next);
+  });
+};
@@ -12,12 +12,89 @@ export class AppError extends Error {
   }
 }
 
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends AppError {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message, 400);
+    this.issues = issues;
+  }
+}
+
+export class RateLimitError extends AppError {
+  policy: string;
+  limit: number;
+  retryAfter: number;
+
+  constructor(policy: string, limit: number, retryAfter: number) {
+    super('Too many requests, please try again later.', 429);
+    this.policy = policy;
+    this.limit = limit;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * A wallet has used up its daily AI token budget. `resetAt` is in unix
+ * seconds.
+ */
+export class AIBudgetError extends AppError {
+  used: number;
+  budget: number;
+  resetAt: number;
+
+  constructor(used: number, budget: number, resetAt: number) {
+    super(
+      `Daily AI token budget exhausted: ${used} of ${budget} tokens used. It resets at ${new Date(resetAt * 1000).toISOString()}.`,
+      429
+    );
+    this.used = used;
+    this.budget = budget;
+    this.resetAt = resetAt;
+  }
+}
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
+  if (err instanceof ValidationError) {
+    return res.status(err.statusCode).json({
+      status: 'error',
+      message: err.message,
+      errors: err.issues,
+    });
+  }
+
+  if (err instanceof RateLimitError) {
+    res.setHeader('Retry-After', String(err.retryAfter));
+    return res.status(err.statusCode).json({
+      status: 'error',
+      message: err.message,
+      policy: err.policy,
+      limit: err.limit,
+      retryAfter: err.retryAfter,
+    });
+  }
+
+  if (err instanceof AIBudgetError) {
+    res.setHeader('Retry-After', String(Math.max(1, err.resetAt - Math.floor(Date.now() / 1000))));
+    return res.status(err.statusCode).json({
+      status: 'error',
+      message: err.message,
+      used: err.used,
+      budget: err.budget,
+      resetAt: err.resetAt,
+    });
+  }
+
   if (err instanceof AppError) {
     return res.status(err.statusCode).json({
       status: 'error',
@@ -1,9 +1,182 @@
-import rateLimit from 'express-rate-limit';
-
-export const rateLimiter = rateLimit({
-  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
-  max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
-  message: 'Too many requests from this IP, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+import { Request, Response, NextFunction } from 'express';
+import Redis from 'ioredis';
+import reputationService from '../services/reputation';
+import { ReputationTier } from '../types/user';
+import { RateLimitError } from './errorHandler';
+
+export type RateLimitPolicyName = 'read' | 'write' | 'ai' | 'auth';
+
+interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+}
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Backing store for fixed-window counters
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * The subset of a Redis client the Redis store needs (ioredis satisfies it)
+ */
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  pttl(key: string): Promise<number>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+  private calls = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    if (++this.calls % 1000 === 0) {
+      this.prune(now);
+    }
+
+    let hit = this.hits.get(key);
+    if (!hit || hit.resetAt <= now) {
+      hit = { count: 0, resetAt: now + windowMs };
+      this.hits.set(key, hit);
+    }
+    hit.count++;
+    return { ...hit };
+  }
+
+  private prune(now: number): void {
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisLikeClient;
+
+  constructor(client: RedisLikeClient) {
+    this.client = client;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const count = await this.client.incr(key);
+    if (count === 1) {
+      await this.client.pexpire(key, windowMs);
+    }
+    let ttl = await this.client.pttl(key);
+    if (ttl < 0) {
+      // Key lost its expiry (e.g. crash between INCR and PEXPIRE)
+      await this.client.pexpire(key, windowMs);
+      ttl = windowMs;
+    }
+    return { count, resetAt: Date.now() + ttl };
+  }
+}
+
+// Higher reputation tiers get proportionally larger budgets
+const TIER_MULTIPLIERS: Record<ReputationTier, number> = {
+  Bronze: 1,
+  Silver: 1.5,
+  Gold: 2,
+  Platinum: 3,
+  Diamond: 5,
+};
+
+const getPolicies = (): Record<RateLimitPolicyName, RateLimitPolicy> => {
+  const windowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'); // 15 minutes
+  return {
+    read: { windowMs, max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '300') },
+    write: { windowMs, max: parseInt(process.env.RATE_LIMIT_WRITE_MAX_REQUESTS || '60') },
+    ai: { windowMs, max: parseInt(process.env.RATE_LIMIT_AI_MAX_REQUESTS || '20') },
+    auth: { windowMs, max: parseInt(process.env.RATE_LIMIT_AUTH_MAX_REQUESTS || '30') },
+  };
+};
+
+let store: RateLimitStore | null = null;
+
+const getStore = (): RateLimitStore => {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === 'redis'
+        ? new RedisRateLimitStore(new Redis(process.env.REDIS_URL || 'redis://localhost:6379'))
+        : new MemoryRateLimitStore();
+  }
+  return store;
+};
+
+export const setRateLimitStore = (custom: RateLimitStore) => {
+  store = custom;
+};
+
+const selectPolicy = (req: Request): RateLimitPolicyName => {
+  if (req.path.startsWith('/ai/')) return 'ai';
+  if (req.path.startsWith('/auth/')) return 'auth';
+  if (req.method === 'GET' || req.method === 'HEAD') return 'read';
+  return 'write';
+};
+
+const getTierMultiplier = async (address: string): Promise<number> => {
+  try {
+    const tier = await reputationService.getTier(address);
+    return tier ? TIER_MULTIPLIERS[tier] : 1;
+  } catch (error) {
+    console.error('Error resolving reputation tier for rate limit:', error);
+    return 1;
+  }
+};
+
+/**
+ * Rate limit middleware for one policy. Authenticated requests are keyed by
+ * wallet (and scaled by reputation tier), anonymous ones by IP. Requests are
+ * let through unlimited while the store is failing.
+ */
+export const rateLimit =
+  (policyName?: RateLimitPolicyName) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const name = policyName ?? selectPolicy(req);
+      const policy = getPolicies()[name];
+
+      let identity: string;
+      let max = policy.max;
+      if (req.user) {
+        identity = `wallet:${req.user.address.toLowerCase()}`;
+        max = Math.floor(max * (await getTierMultiplier(req.user.address)));
+      } else {
+        identity = `ip:${req.ip}`;
+      }
+
+      let hit: RateLimitHit;
+      try {
+        hit = await getStore().increment(`rl:${name}:${identity}`, policy.windowMs);
+      } catch (error) {
+        // Fail open: a counter store outage should not take the whole API down with it
+        console.error('Error updating rate limit counter, letting the request through:', error);
+        return next();
+      }
+      const retryAfter = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Policy', `${max};w=${Math.ceil(policy.windowMs / 1000)}`);
+      res.setHeader('RateLimit-Limit', String(max));
+      res.setHeader('RateLimit-Remaining', String(Math.max(0, max - hit.count)));
+      res.setHeader('RateLimit-Reset', String(retryAfter));
+
+      if (hit.count > max) {
+        return next(new RateLimitError(name, max, retryAfter));
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Picks the policy from the route: AI, auth, reads and writes have separate budgets
+export const rateLimiter = rateLimit();
@@ -1,56 +1,196 @@
 import express from 'express';
-import claudeAI from '../services/claudeAI';
+import { z } from 'zod';
+import aiUsage from '../services/aiUsage';
+import bountyPricing from '../services/bountyPricing';
+import claudeAI, { AIResult } from '../services/claudeAI';
+import disputeService from '../services/disputes';
+import fraudScoring from '../services/fraudScoring';
+import recommendations from '../services/recommendations';
+import submissionReview from '../services/submissionReview';
+import { TASK_CATEGORIES } from '../types/task';
+import { openEventStream } from '../utils/sse';
+import { parseRequest } from '../utils/validation';
 
 const router = express.Router();
 
+/**
+ * Split a result into its payload and the provenance the client must display
+ */
+const provenanceOf = <T>({ data: _data, ...provenance }: AIResult<T>) => provenance;
+
+const CategorizeSchema = z.object({
+  description: z.string().trim().min(1).max(20000),
+});
+
 router.post('/categorize', async (req, res, next) => {
   try {
-    const { description } = req.body;
-    const category = await claudeAI.categorizeTask(description);
-    res.json({ category });
+    const { description } = parseRequest(CategorizeSchema, req.body);
+    const result = await claudeAI.categorizeTask(description, { wallet: req.user!.address });
+    res.json({ category: result.data, provenance: provenanceOf(result) });
   } catch (error) {
     next(error);
   }
 });
 
+const EstimateComplexitySchema = CategorizeSchema.extend({
+  requirements: z
+    .union([z.string().max(20000), z.array(z.string().max(1000)).max(50)])
+    .default('')
+    .transform((value) => (Array.isArray(value) ? value.join('\n') : value)),
+});
+
 router.post('/estimate-complexity', async (req, res, next) => {
   try {
-    const { description, requirements } = req.body;
-    const estimate = await claudeAI.estimateTaskComplexity(description, requirements);
-    res.json(estimate);
+    const { description, requirements } = parseRequest(EstimateComplexitySchema, req.body);
+    const estimate = await claudeAI.estimateTaskComplexity(description, requirements, {
+      wallet: req.user!.address,
+    });
+    res.json({ ...estimate.data, provenance: provenanceOf(estimate) });
   } catch (error) {
     next(error);
   }
 });
 
+const PriceBountySchema = EstimateComplexitySchema.extend({
+  category: z.enum(TASK_CATEGORIES).optional(),
+});
+
+/**
+ * Suggested bounty range from comparable completed tasks, blended with the
+ * AI complexity estimate
+ */
+router.post('/price-bounty', async (req, res, next) => {
+  try {
+    const request = parseRequest(PriceBountySchema, req.body);
+    res.json(await bountyPricing.price(request, req.user!.address));
+  } catch (error) {
+    next(error);
+  }
+});
+
+const DetectFraudSchema = z.object({
+  description: z.string().trim().min(1).max(20000),
+  bounty: z.string().regex(/^[1-9]\d*$/, 'Bounty must be a positive integer amount in wei').optional(),
+  category: z.enum(TASK_CATEGORIES).optional(),
+});
+
+/**
+ * Fraud score for a task draft by the signed-in wallet. Creator history is
+ * built server-side; any history in the request body is ignored.
+ */
 router.post('/detect-fraud', async (req, res, next) => {
   try {
-    const { description, creatorHistory } = req.body;
-    const result = await claudeAI.detectFraud(description, creatorHistory);
-    res.json(result);
+    const { description, bounty, category } = parseRequest(DetectFraudSchema, req.body);
+    const creator = req.user!.address;
+    res.json(await fraudScoring.score({ creator, text: description, bounty, category, caller: creator }));
   } catch (error) {
     next(error);
   }
 });
 
+const RecommendSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  skills: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  rerank: z.boolean().default(false),
+});
+
+/**
+ * Open tasks ranked for the signed-in wallet by embedding similarity to its
+ * completed work and declared skills
+ */
 router.post('/recommend', async (req, res, next) => {
   try {
-    const { userProfile, availableTasks } = req.body;
-    const recommendations = await claudeAI.recommendTasks(userProfile, availableTasks);
-    res.json({ recommendations });
+    const options = parseRequest(RecommendSchema, req.body);
+    const result = await recommendations.recommend(req.user!.address, options);
+    res.json(result);
   } catch (error) {
     next(error);
   }
 });
 
+const TemplateSchema = z.object({
+  briefDescription: z.string().trim().min(1).max(5000),
+});
+
 router.post('/generate-template', async (req, res, next) => {
   try {
-    const { briefDescription } = req.body;
-    const template = await claudeAI.generateTaskTemplate(briefDescription);
-    res.json(template);
+    const { briefDescription } = parseRequest(TemplateSchema, req.body);
+    const template = await claudeAI.generateTaskTemplate(briefDescription, { wallet: req.user!.address });
+    res.json({ ...template.data, provenance: provenanceOf(template) });
   } catch (error) {
     next(error);
   }
 });
 
+const SummarizeDisputeSchema = z.object({
+  proposalId: z.string().regex(/^\d+$/, 'Proposal ID must be a decimal integer'),
+});
+
+router.post('/summarize-dispute', async (req, res, next) => {
+  try {
+    const { proposalId } = parseRequest(SummarizeDisputeSchema, req.body);
+    const { proposal, brief, missingDocuments } = await disputeService.summarize(proposalId, req.user!.address);
+    res.json({ proposal, brief: brief.data, missingDocuments, provenance: provenanceOf(brief) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const ReviewSubmissionSchema = z.object({
+  taskId: z.coerce.number().int().nonnegative(),
+});
+
+/**
+ * Advisory checklist for the task creator; it never approves anything
+ */
+router.post('/review-submission', async (req, res, next) => {
+  try {
+    const { taskId } = parseRequest(ReviewSubmissionSchema, req.body);
+    const { submissionHash, review } = await submissionReview.review(taskId, req.user!.address);
+    res.json({
+      taskId,
+      submissionHash,
+      advisory: true,
+      ...review.data,
+      provenance: provenanceOf(review),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * SSE variant of generate-template: `partial` events carry the draft so far,
+ * then `complete` (schema-checked template plus provenance) or `error`.
+ * Closing the connection cancels generation.
+ */
+router.post('/generate-template/stream', async (req, res, next) => {
+  let stream: ReturnType<typeof openEventStream> | null = null;
+  try {
+    const { briefDescription } = parseRequest(TemplateSchema, req.body);
+    // Over-budget wallets get a plain 429 rather than an error event
+    aiUsage.assertWithinBudget(req.user!.address);
+    stream = openEventStream(res);
+    const events = stream;
+
+    const template = await claudeAI.streamTaskTemplate(
+      briefDescription,
+      (draft, attempt) => events.send('partial', { draft, attempt }),
+      events.signal,
+      { wallet: req.user!.address }
+    );
+    events.send('complete', { template: template.data, provenance: provenanceOf(template) });
+    events.close();
+  } catch (error: any) {
+    if (!stream) {
+      return next(error);
+    }
+    if (!stream.signal.aborted) {
+      console.error('Error streaming template:', error);
+      stream.send('error', { message: 'Template generation failed' });
+    }
+    stream.close();
+  }
+});
+
 export default router;
@@ -1,9 +1,88 @@
 import express from 'express';
+import { z } from 'zod';
+import { requireAdmin, requireAuth } from '../middleware/auth';
+import aiUsage from '../services/aiUsage';
+import analytics from '../services/analytics';
+import { TASK_CATEGORIES } from '../types/task';
+import { parseRequest } from '../utils/validation';
 
 const router = express.Router();
 
-router.get('/stats', async (req, res) => {
-  res.json({ stats: {} });
+const TimeSeriesQuerySchema = z
+  .object({
+    interval: z.enum(['day', 'week', 'month']).default('day'),
+    from: z.coerce.number().int().nonnegative().optional(),
+    to: z.coerce.number().int().nonnegative().optional(),
+    category: z.enum(TASK_CATEGORIES).optional(),
+  })
+  .refine((q) => q.from === undefined || q.to === undefined || q.from <= q.to, {
+    message: 'from must not exceed to',
+    path: ['from'],
+  });
+
+router.get('/stats', async (req, res, next) => {
+  try {
+    res.json({ stats: analytics.getStats() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/categories', async (req, res, next) => {
+  try {
+    res.json({ categories: analytics.getCategoryStats() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/timeseries', async (req, res, next) => {
+  try {
+    const { interval, from, to, category } = parseRequest(TimeSeriesQuerySchema, req.query);
+    res.json({ interval, series: analytics.getTimeSeries(interval, from, to, category) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const AIUsageQuerySchema = z
+  .object({
+    from: z.coerce.number().int().nonnegative().optional(),
+    to: z.coerce.number().int().nonnegative().optional(),
+    wallet: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Invalid wallet address').optional(),
+    groupBy: z.enum(['operation', 'model', 'wallet', 'day']).default('operation'),
+  })
+  .refine((q) => q.from === undefined || q.to === undefined || q.from <= q.to, {
+    message: 'from must not exceed to',
+    path: ['from'],
+  });
+
+/**
+ * AI calls, tokens, fallbacks and latency across all wallets. `from` and `to`
+ * are unix seconds and default to the last seven days.
+ */
+router.get('/ai-usage', requireAdmin, async (req, res, next) => {
+  try {
+    const { from, to, wallet, groupBy } = parseRequest(AIUsageQuerySchema, req.query);
+    res.json(aiUsage.report({ from, to, wallet, groupBy }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * The signed-in wallet's budget for today and its usage by operation
+ */
+router.get('/ai-usage/me', requireAuth, async (req, res, next) => {
+  try {
+    const status = aiUsage.getBudgetStatus(req.user!.address);
+    res.json({
+      budget: status,
+      today: aiUsage.report({ from: status.resetAt - 24 * 60 * 60, wallet: status.wallet }),
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
 export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import authService from '../services/auth';
+import { parseRequest } from '../utils/validation';
+
+const router = express.Router();
+
+const SignInSchema = z.object({
+  message: z.string().min(1).max(4000),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, 'Invalid signature'),
+});
+
+router.get('/nonce', async (req, res) => {
+  res.json({ nonce: authService.issueNonce() });
+});
+
+router.post('/verify', async (req, res, next) => {
+  try {
+    const { message, signature } = parseRequest(SignInSchema, req.body);
+    const { token, session } = await authService.signIn(message, signature);
+    res.json({ token, session });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/session', requireAuth, async (req, res) => {
+  res.json({ session: req.user });
+});
+
+export default router;
@@ -0,0 +1,24 @@
+import express from 'express';
+import disputeService from '../services/disputes';
+
+const router = express.Router();
+
+router.get('/', async (req, res, next) => {
+  try {
+    const proposals = await disputeService.listProposals();
+    res.json({ proposals });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:proposalId', async (req, res, next) => {
+  try {
+    const proposal = await disputeService.getProposal(req.params.proposalId);
+    res.json({ proposal });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,13 +1,91 @@
 import express from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import attachments from '../services/attachments';
 import ipfsService from '../services/ipfs';
+import { isValidCID } from '../shared/cid';
+import { DOCUMENT_KINDS } from '../shared/documents';
+import { parseRequest } from '../utils/validation';
 
 const router = express.Router();
 
-router.post('/upload', async (req, res, next) => {
+const UploadSchema = z.object({
+  kind: z.enum(DOCUMENT_KINDS),
+  data: z.unknown(),
+});
+
+const CidParamsSchema = z.object({
+  cid: z.string().refine(isValidCID, 'Invalid CID'),
+});
+
+router.post('/upload', requireAuth, async (req, res, next) => {
+  try {
+    const { kind, data } = parseRequest(UploadSchema, req.body);
+    const cid = await ipfsService.uploadJSON(kind, data);
+    res.json({ cid, url: ipfsService.getGatewayUrl(cid), pins: await ipfsService.getPins(cid) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Multipart file upload. Each file streams to IPFS as it arrives and is
+ * pinned; the response gives the references to put in task metadata or a
+ * submission document.
+ */
+router.post('/files', requireAuth, async (req, res, next) => {
+  try {
+    const files = await attachments.receive(req.headers, req, req.user!.address);
+    res.status(201).json({
+      files: files.map(({ cid, name, mimeType, size }) => ({
+        cid,
+        name,
+        mimeType,
+        size,
+        url: ipfsService.getGatewayUrl(cid),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Stream a file with the type it was uploaded with
+ */
+router.get('/files/:cid', async (req, res, next) => {
+  try {
+    const { cid } = parseRequest(CidParamsSchema, req.params);
+    const source = ipfsService.stream(cid)[Symbol.asyncIterator]();
+    // Read the first chunk before sending headers so a missing CID is still a normal error response
+    const first = await source.next();
+
+    res.set({ ...(await attachments.getDownloadHeaders(cid)), 'Cache-Control': 'public, max-age=31536000, immutable' });
+    const rest = async function* () {
+      if (!first.done) yield first.value;
+      for (let chunk = await source.next(); !chunk.done; chunk = await source.next()) {
+        yield chunk.value;
+      }
+    };
+    await pipeline(Readable.from(rest()), res);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Error streaming file from IPFS:', error);
+      return res.destroy();
+    }
+    next(error);
+  }
+});
+
+/**
+ * Which providers hold a pin for the CID, and its state on each
+ */
+router.get('/:cid/pins', async (req, res, next) => {
   try {
-    const { data } = req.body;
-    const cid = await ipfsService.uploadJSON(data);
-    res.json({ cid, url: ipfsService.getGatewayUrl(cid) });
+    const { cid } = parseRequest(CidParamsSchema, req.params);
+    res.json({ cid, pins: await ipfsService.getPins(cid) });
   } catch (error) {
     next(error);
   }
@@ -15,9 +93,9 @@ router.post('/upload', async (req, res, next) => {
 
 router.get('/:cid', async (req, res, next) => {
   try {
-    const { cid } = req.params;
+    const { cid } = parseRequest(CidParamsSchema, req.params);
     const data = await ipfsService.getJSON(cid);
-    res.json({ data });
+    res.set('Cache-Control', 'public, max-age=31536000, immutable').json({ data });
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,99 @@
+import express from 'express';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { requireAdmin, requireAuth } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import moderation, { MODERATION_ACTIONS, MODERATION_STATUSES, ModerationItem } from '../services/moderation';
+import taskMetadata from '../services/taskMetadata';
+import taskStore from '../services/taskStore';
+import { parseRequest } from '../utils/validation';
+
+const router = express.Router();
+
+const ReportSchema = z.object({
+  subject: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('task'), taskId: z.coerce.number().int().nonnegative() }),
+    z.object({
+      type: z.literal('user'),
+      address: z.string().refine((value) => ethers.isAddress(value), 'Invalid address'),
+    }),
+  ]),
+  reason: z.string().trim().min(5).max(1000),
+});
+
+const QueueQuerySchema = z.object({
+  status: z.enum(MODERATION_STATUSES).optional(),
+});
+
+const ActionSchema = z.object({
+  action: z.enum(MODERATION_ACTIONS),
+  note: z.string().trim().max(1000).optional(),
+});
+
+const AuditQuerySchema = z.object({
+  itemId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+/**
+ * Attach the task (with its title) that a task item refers to
+ */
+const withTask = async (item: ModerationItem) => {
+  if (item.subject.type !== 'task') {
+    return { ...item, task: null };
+  }
+  const task = taskStore.getTask(item.subject.taskId);
+  const metadata = task ? await taskMetadata.get(task.ipfsHash) : null;
+  return { ...item, task: task ? { ...task, title: metadata?.title ?? null } : null };
+};
+
+/**
+ * Report a task or user. Any signed-in wallet can report.
+ */
+router.post('/reports', requireAuth, async (req, res, next) => {
+  try {
+    const { subject, reason } = parseRequest(ReportSchema, req.body);
+    if (subject.type === 'task' && !taskStore.getTask(subject.taskId)) {
+      throw new AppError('Task not found', 404);
+    }
+    const item = await moderation.report(subject, req.user!.address, reason);
+    res.status(201).json({ itemId: item.id });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/queue', requireAdmin, async (req, res, next) => {
+  try {
+    const { status } = parseRequest(QueueQuerySchema, req.query);
+    const items = await moderation.list(status);
+    res.json({ items: await Promise.all(items.map(withTask)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/items/:id/actions', requireAdmin, async (req, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new AppError('Invalid moderation item id', 400);
+    }
+    const { action, note } = parseRequest(ActionSchema, req.body);
+    const item = await moderation.act(id, action, req.user!.address, note);
+    res.json({ item: await withTask(item) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/audit', requireAdmin, async (req, res, next) => {
+  try {
+    const { itemId, limit } = parseRequest(AuditQuerySchema, req.query);
+    res.json({ entries: await moderation.getAudit(itemId, limit) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,17 +1,134 @@
 import express from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import documentKeys, { TASK_DOCUMENTS } from '../services/documentKeys';
+import moderation from '../services/moderation';
+import taskStore from '../services/taskStore';
+import taskCreation, { PrivateTaskDraftSchema, TaskDraftSchema } from '../services/taskCreation';
+import taskMetadata from '../services/taskMetadata';
+import { queryTasks, TaskQuerySchema } from '../services/taskQuery';
+import taskSearch from '../services/taskSearch';
+import { WrappedKeySchema } from '../shared/encryption';
+import { IndexedTask } from '../types/task';
+import { parseRequest } from '../utils/validation';
 
 const router = express.Router();
 
-router.get('/', async (req, res) => {
-  res.json({ tasks: [] });
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
-router.get('/:id', async (req, res) => {
-  res.json({ task: null });
+const DocumentKeyParamsSchema = z.object({
+  id: z.coerce.number().int().nonnegative(),
+  document: z.enum(TASK_DOCUMENTS),
 });
 
-router.post('/', async (req, res) => {
-  res.json({ success: true });
+const GrantSchema = z.object({
+  keys: z.array(WrappedKeySchema).min(1).max(10),
+});
+
+const withMetadata = async (task: IndexedTask) => ({
+  ...task,
+  metadata: await taskMetadata.get(task.ipfsHash),
+});
+
+router.get('/', async (req, res, next) => {
+  try {
+    const query = parseRequest(TaskQuerySchema, req.query);
+    const hidden = await moderation.getHiddenTaskIds();
+    const { tasks, nextCursor } = queryTasks(
+      taskStore.getTasks().filter((task) => !hidden.has(task.id)),
+      query
+    );
+    res.json({
+      tasks: await Promise.all(tasks.map(withMetadata)),
+      nextCursor,
+      lastProcessedBlock: taskStore.getLastProcessedBlock(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/search', async (req, res, next) => {
+  try {
+    const { q, limit } = parseRequest(SearchQuerySchema, req.query);
+    const results = taskSearch.search(q, limit);
+    const hidden = await moderation.getHiddenTaskIds();
+
+    const hits = [];
+    for (const result of results) {
+      const task = taskStore.getTask(result.taskId);
+      if (task && !hidden.has(task.id)) {
+        hits.push({ ...result, task: await withMetadata(task) });
+      }
+    }
+
+    res.json({ query: q, results: hits });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id < 0) {
+      throw new AppError('Invalid task id', 400);
+    }
+
+    const task = taskStore.getTask(id);
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+
+    res.json({ task: await withMetadata(task) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/', requireAuth, async (req, res, next) => {
+  try {
+    // Private tasks send an encrypted brief instead of the task text
+    const result =
+      req.body?.brief !== undefined
+        ? await taskCreation.preparePrivate(parseRequest(PrivateTaskDraftSchema, req.body), req.user!.address)
+        : await taskCreation.prepare(parseRequest(TaskDraftSchema, req.body), req.user!.address);
+    res.status(result.status === 'held' ? 422 : 200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * The caller's wrapped key for an encrypted brief or submission, and who
+ * else has been given one
+ */
+router.get('/:id/keys/:document', requireAuth, async (req, res, next) => {
+  try {
+    const { id, document } = parseRequest(DocumentKeyParamsSchema, req.params);
+    res.json(await documentKeys.getGrants(id, document, req.user!.address));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Share the content key of an encrypted brief or submission, wrapped
+ * client-side for each recipient
+ */
+router.post('/:id/keys/:document', requireAuth, async (req, res, next) => {
+  try {
+    const { id, document } = parseRequest(DocumentKeyParamsSchema, req.params);
+    const { keys } = parseRequest(GrantSchema, req.body);
+    const granted = await documentKeys.grant(id, document, req.user!.address, keys);
+    res.status(201).json({ granted });
+  } catch (error) {
+    next(error);
+  }
 });
 
 export default router;
@@ -1,9 +1,49 @@
 import express from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import documentKeys from '../services/documentKeys';
+import userProfile from '../services/userProfile';
+import { EncryptionPublicKeySchema } from '../shared/encryption';
+import { parseRequest } from '../utils/validation';
 
 const router = express.Router();
 
-router.get('/:address', async (req, res) => {
-  res.json({ user: null });
+const PublicKeySchema = z.object({ publicKey: EncryptionPublicKeySchema });
+
+/**
+ * Register the caller's public key for encrypted tasks. The key pair is
+ * derived client-side from a wallet signature; the private key never leaves
+ * the browser.
+ */
+router.put('/me/encryption-key', requireAuth, async (req, res, next) => {
+  try {
+    const { publicKey } = parseRequest(PublicKeySchema, req.body);
+    res.json({ key: await documentKeys.setPublicKey(req.user!.address, publicKey) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:address/encryption-key', async (req, res, next) => {
+  try {
+    const key = await documentKeys.getPublicKey(req.params.address);
+    if (!key) {
+      throw new AppError('No encryption key registered for this address', 404);
+    }
+    res.json({ key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:address', async (req, res, next) => {
+  try {
+    const user = await userProfile.getProfile(req.params.address);
+    res.json({ user });
+  } catch (error) {
+    next(error);
+  }
 });
 
 export default router;
@@ -0,0 +1,42 @@
+import { ethers } from 'ethers';
+import { getContractAddresses, getProvider } from '../config/blockchain';
+import { TASK_MANAGER_ABI } from '../contracts/abis';
+
+const ROLE_CACHE_TTL_MS = 60 * 1000;
+
+export const ADMIN_ROLE = ethers.id('ADMIN_ROLE');
+export const DISPUTE_RESOLVER_ROLE = ethers.id('DISPUTE_RESOLVER_ROLE');
+
+/**
+ * Cached TaskManager role checks. The TTL is short so a revoked role stops
+ * granting access quickly.
+ */
+export class AccessControlService {
+  private roles = new Map<string, { hasRole: boolean; expiresAt: number }>();
+
+  async isAdmin(address: string): Promise<boolean> {
+    return this.hasRole(ADMIN_ROLE, address);
+  }
+
+  async isDisputeResolver(address: string): Promise<boolean> {
+    return this.hasRole(DISPUTE_RESOLVER_ROLE, address);
+  }
+
+  private async hasRole(role: string, address: string): Promise<boolean> {
+    const key = `${role}:${address.toLowerCase()}`;
+    const cached = this.roles.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.hasRole;
+    }
+
+    const { taskManager } = getContractAddresses();
+    if (!taskManager) return false;
+
+    const contract = new ethers.Contract(taskManager, TASK_MANAGER_ABI, getProvider());
+    const hasRole: boolean = await contract.hasRole(role, address);
+    this.roles.set(key, { hasRole, expiresAt: Date.now() + ROLE_CACHE_TTL_MS });
+    return hasRole;
+  }
+}
+
+export default new AccessControlService();
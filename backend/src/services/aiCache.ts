@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import type { AIOperation } from './llm';
+
+/**
+ * Seconds a model result stays fresh; 0 disables caching. Override per
+ * operation with AI_CACHE_TTL_<OPERATION> (e.g. AI_CACHE_TTL_DETECTFRAUD).
+ */
+const DEFAULT_TTLS: Record<AIOperation, number> = {
+  categorizeTask: 24 * 60 * 60,
+  estimateTaskComplexity: 6 * 60 * 60,
+  detectFraud: 60 * 60,
+  recommendTasks: 15 * 60,
+  // Regenerating a template is meant to produce a different draft
+  generateTaskTemplate: 0,
+  summarizeDispute: 24 * 60 * 60,
+  reviewSubmission: 24 * 60 * 60,
+};
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Content-addressed cache for AI results. Keys hash the operation, model and
+ * everything that goes into the prompt, so an edited draft is a new key.
+ * Identical calls that overlap share one request. Values are cloned on the
+ * way in and out because callers post-process results in place.
+ */
+export class AIResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  getTTL(operation: AIOperation): number {
+    const override = process.env[`AI_CACHE_TTL_${operation.toUpperCase()}`];
+    const ttl = override === undefined || override === '' ? DEFAULT_TTLS[operation] : parseInt(override);
+    return Number.isFinite(ttl) && ttl > 0 ? ttl : 0;
+  }
+
+  key(operation: AIOperation, model: string, content: unknown): string {
+    const hash = crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+    return `${operation}:${model}:${hash}`;
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so eviction drops the least recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.value) as T;
+  }
+
+  set(key: string, value: unknown, ttlSeconds: number): void {
+    const maxEntries = parseInt(process.env.AI_CACHE_MAX_ENTRIES || '1000');
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Run `task` unless an identical call is already in flight, in which case
+   * wait for that one. `shared` tells the caller it did not make the call.
+   * A rejection belongs to the caller that made the call: waiting callers
+   * run `task` themselves instead, and nothing is kept.
+   */
+  async dedupe<T>(key: string, task: () => Promise<T>): Promise<{ value: T; shared: boolean }> {
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      try {
+        return { value: structuredClone(await pending), shared: true };
+      } catch {
+        // Fall through and make the call
+      }
+    }
+
+    const promise = task();
+    this.inFlight.set(key, promise);
+    try {
+      // Waiting callers clone the same value, so the caller that made the call gets a copy too
+      return { value: structuredClone(await promise), shared: false };
+    } finally {
+      // A caller that fell through may already have replaced the entry
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import path from 'path';
+import { AIBudgetError } from '../middleware/errorHandler';
+import { getDataDir, readJSONFile, writeJSONFile } from '../utils/jsonFile';
+import type { AIOperation } from './llm';
+
+const DAY = 24 * 60 * 60;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export type UsageGrouping = 'operation' | 'model' | 'wallet' | 'day';
+
+/** `fixture`: offline canned reply; `fallback`: placeholder after a failure */
+export type AISource = 'model' | 'fixture' | 'fallback';
+
+/** `bypass`: the operation is not cached, or the call streamed */
+export type CacheOutcome = 'hit' | 'miss' | 'bypass';
+
+/**
+ * One ClaudeAIService call
+ */
+export interface UsageRecord {
+  /** Unix seconds when the call finished */
+  at: number;
+  operation: AIOperation;
+  /** Model that answered, or the configured model when none did */
+  model: string;
+  /** Summed over repair attempts */
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  attempts: number;
+  source: AISource;
+  /** Absent on records written before caching */
+  cache?: CacheOutcome;
+  /** Wallet the call is billed to; null for background work */
+  wallet: string | null;
+  /**
+   * Tokens of the identical in-flight call this one joined. They count
+   * against the wallet's budget but were only spent once, so reports leave
+   * them out.
+   */
+  sharedTokens?: number;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  fallbacks: number;
+  cacheHits: number;
+  cacheMisses: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+export interface UsageReport {
+  from: number;
+  to: number;
+  groupBy: UsageGrouping;
+  totals: UsageTotals;
+  groups: Array<UsageTotals & { key: string }>;
+}
+
+export interface BudgetStatus {
+  wallet: string;
+  /** Null when the wallet has no budget */
+  budget: number | null;
+  used: number;
+  remaining: number | null;
+  /** Unix seconds of the next UTC midnight */
+  resetAt: number;
+}
+
+interface UsageSnapshot {
+  records: UsageRecord[];
+}
+
+const startOfUTCDay = (seconds: number) => Math.floor(seconds / DAY) * DAY;
+
+const totalsOf = (records: UsageRecord[]): UsageTotals => {
+  const latencies = records.map((r) => r.latencyMs).sort((a, b) => a - b);
+  const inputTokens = records.reduce((sum, r) => sum + r.inputTokens, 0);
+  const outputTokens = records.reduce((sum, r) => sum + r.outputTokens, 0);
+  return {
+    calls: records.length,
+    fallbacks: records.filter((r) => r.source === 'fallback').length,
+    cacheHits: records.filter((r) => r.cache === 'hit').length,
+    cacheMisses: records.filter((r) => r.cache === 'miss').length,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    avgLatencyMs: latencies.length ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length) : null,
+    p95LatencyMs: latencies.length ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : null,
+  };
+};
+
+/**
+ * Per-call AI usage records, per-wallet daily token budgets and usage
+ * reports. Records stay in memory until load() is called at startup, which
+ * also turns on persistence.
+ */
+export class AIUsageService {
+  private filePath: string;
+  private records: UsageRecord[] = [];
+  private persistent = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath = path.join(getDataDir(), 'ai-usage.json')) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    const snapshot = await readJSONFile<UsageSnapshot>(this.filePath);
+    if (snapshot) {
+      this.records = [...snapshot.records, ...this.records];
+    }
+    this.persistent = true;
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    this.records.push({ ...record, wallet: record.wallet?.toLowerCase() ?? null });
+    await this.save();
+  }
+
+  /**
+   * Budget from AI_DAILY_TOKEN_BUDGET, overridden per wallet by
+   * AI_TOKEN_BUDGET_OVERRIDES (`0xabc...:500000,0xdef...:0`). 0 means unlimited.
+   */
+  getBudget(wallet: string): number | null {
+    const overrides = (process.env.AI_TOKEN_BUDGET_OVERRIDES || '')
+      .split(',')
+      .map((entry) => entry.trim().split(':'))
+      .filter(([address, value]) => address && value !== undefined);
+    const override = overrides.find(([address]) => address.toLowerCase() === wallet.toLowerCase());
+
+    const budget = parseInt(override ? override[1] : process.env.AI_DAILY_TOKEN_BUDGET || '100000');
+    return Number.isFinite(budget) && budget > 0 ? budget : null;
+  }
+
+  getBudgetStatus(wallet: string): BudgetStatus {
+    const key = wallet.toLowerCase();
+    const dayStart = startOfUTCDay(nowSeconds());
+    const used = this.records
+      .filter((r) => r.wallet === key && r.at >= dayStart)
+      .reduce((sum, r) => sum + r.inputTokens + r.outputTokens + (r.sharedTokens ?? 0), 0);
+    const budget = this.getBudget(wallet);
+    return {
+      wallet: key,
+      budget,
+      used,
+      remaining: budget === null ? null : Math.max(0, budget - used),
+      resetAt: dayStart + DAY,
+    };
+  }
+
+  /**
+   * Throw when the wallet has used up today's tokens. Background calls
+   * (no wallet) are not budgeted.
+   */
+  assertWithinBudget(wallet: string | null | undefined): void {
+    if (!wallet) return;
+    const status = this.getBudgetStatus(wallet);
+    if (status.budget !== null && status.used >= status.budget) {
+      throw new AIBudgetError(status.used, status.budget, status.resetAt);
+    }
+  }
+
+  /**
+   * Aggregate records between two unix-second bounds, by default the last
+   * seven days
+   */
+  report(options: { from?: number; to?: number; wallet?: string; groupBy?: UsageGrouping } = {}): UsageReport {
+    const to = options.to ?? nowSeconds();
+    const from = options.from ?? to - 7 * DAY;
+    const groupBy = options.groupBy ?? 'operation';
+    const wallet = options.wallet?.toLowerCase();
+
+    const selected = this.records.filter(
+      (r) => r.at >= from && r.at <= to && (wallet === undefined || r.wallet === wallet)
+    );
+
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of selected) {
+      const key =
+        groupBy === 'day'
+          ? new Date(record.at * 1000).toISOString().slice(0, 10)
+          : groupBy === 'wallet'
+            ? record.wallet ?? 'system'
+            : record[groupBy];
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+
+    return {
+      from,
+      to,
+      groupBy,
+      totals: totalsOf(selected),
+      groups: [...groups.entries()]
+        .map(([key, records]) => ({ key, ...totalsOf(records) }))
+        .sort((a, b) => (groupBy === 'day' ? a.key.localeCompare(b.key) : b.totalTokens - a.totalTokens)),
+    };
+  }
+
+  private async save(): Promise<void> {
+    if (!this.persistent) return;
+
+    const retentionDays = parseInt(process.env.AI_USAGE_RETENTION_DAYS || '30');
+    const cutoff = nowSeconds() - retentionDays * DAY;
+    this.records = this.records.filter((r) => r.at >= cutoff);
+
+    const snapshot: UsageSnapshot = { records: this.records };
+    this.saving = this.saving.catch(() => undefined).then(() => writeJSONFile(this.filePath, snapshot));
+    await this.saving;
+  }
+}
+
+export default new AIUsageService();
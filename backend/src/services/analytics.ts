@@ -0,0 +1,337 @@
+import { IndexedEvent, TASK_CATEGORIES, TaskCategory } from '../types/task';
+import taskStore, { TaskStore } from './taskStore';
+
+export type BucketInterval = 'day' | 'week' | 'month';
+
+export interface PlatformStats {
+  totalTasks: number;
+  totalUsers: number;
+  totalVolume: string;
+  totalCompleted: number;
+  totalCancelled: number;
+  totalDisputed: number;
+  completionRate: number;
+  disputeRate: number;
+  averageTimeToCompletion: number | null;
+  feeRevenue: string;
+  activeUsersToday: number;
+  updatedAt: number | null;
+  lastProcessedBlock: number | null;
+}
+
+export interface CategoryStats {
+  category: TaskCategory;
+  totalTasks: number;
+  totalVolume: string;
+  totalCompleted: number;
+  completionRate: number;
+  disputeRate: number;
+  averageTimeToCompletion: number | null;
+  feeRevenue: string;
+}
+
+export interface TimeSeriesBucket {
+  bucket: string;
+  tasksCreated: number;
+  tasksCompleted: number;
+  tasksCancelled: number;
+  disputes: number;
+  volume: string;
+  feeRevenue: string;
+  activeUsers: number;
+}
+
+/**
+ * Accumulates per-task outcomes from an event stream
+ */
+interface TaskFacts {
+  category: TaskCategory;
+  creator: string;
+  bounty: bigint;
+  createdAt: number;
+  assigned: boolean;
+  disputed: boolean;
+  completedAt: number | null;
+  cancelled: boolean;
+  // The creator won the dispute and got the bounty back
+  refunded: boolean;
+  fee: bigint;
+}
+
+const rate = (part: number, whole: number): number => (whole === 0 ? 0 : Number((part / whole).toFixed(4)));
+
+/**
+ * Whether a DisputeResolved event went the creator's way. The bounty is
+ * refunded, so the task was not completed.
+ */
+const isRefund = (event: IndexedEvent, task: TaskFacts): boolean =>
+  event.name === 'DisputeResolved' && String(event.args.winner).toLowerCase() === task.creator.toLowerCase();
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+/**
+ * Start of the UTC bucket containing `timestamp`, as YYYY-MM-DD. Weeks start on Monday.
+ */
+export const bucketStart = (timestamp: number, interval: BucketInterval): string => {
+  const date = new Date(timestamp * 1000);
+  date.setUTCHours(0, 0, 0, 0);
+  if (interval === 'week') {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  } else if (interval === 'month') {
+    date.setUTCDate(1);
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Addresses acting in an event. TaskSubmitted is attributed to the worker and
+ * TaskCancelled to the creator, since those events carry no actor.
+ */
+const actorsOf = (event: IndexedEvent, facts: Map<number, TaskFacts>, workers: Map<number, string>): string[] => {
+  const { args } = event;
+  switch (event.name) {
+    case 'TaskCreated':
+      return [String(args.creator)];
+    case 'TaskAssigned':
+      return [String(args.worker), facts.get(event.taskId)?.creator].filter(Boolean) as string[];
+    case 'TaskSubmitted':
+      return [workers.get(event.taskId)].filter(Boolean) as string[];
+    case 'TaskCompleted':
+      return [String(args.worker), facts.get(event.taskId)?.creator].filter(Boolean) as string[];
+    case 'TaskCancelled':
+      return [facts.get(event.taskId)?.creator].filter(Boolean) as string[];
+    case 'TaskDisputed':
+      return [String(args.disputant)];
+    case 'DisputeResolved':
+      return [String(args.winner)];
+  }
+};
+
+/**
+ * Platform metrics computed from indexed TaskManager events. Results are
+ * memoized until the store's event log changes.
+ */
+export class AnalyticsService {
+  private store: TaskStore;
+  private memo: { version: number; facts: Map<number, TaskFacts> } | null = null;
+
+  constructor(store: TaskStore = taskStore) {
+    this.store = store;
+  }
+
+  getStats(now = Math.floor(Date.now() / 1000)): PlatformStats {
+    const facts = Array.from(this.getFacts().values());
+    const events = this.store.getEvents();
+
+    const users = new Set<string>();
+    const today = bucketStart(now, 'day');
+    const activeToday = new Set<string>();
+    this.forEachActor((event, actor) => {
+      users.add(actor);
+      if (bucketStart(event.timestamp, 'day') === today) {
+        activeToday.add(actor);
+      }
+    });
+
+    const summary = this.summarize(facts);
+    return {
+      totalTasks: facts.length,
+      totalUsers: users.size,
+      totalVolume: summary.volume.toString(),
+      totalCompleted: summary.completed,
+      totalCancelled: summary.cancelled,
+      totalDisputed: summary.disputed,
+      completionRate: summary.completionRate,
+      disputeRate: summary.disputeRate,
+      averageTimeToCompletion: summary.averageTimeToCompletion,
+      feeRevenue: summary.fees.toString(),
+      activeUsersToday: activeToday.size,
+      updatedAt: events.length > 0 ? events[events.length - 1].timestamp : null,
+      lastProcessedBlock: this.store.getLastProcessedBlock(),
+    };
+  }
+
+  getCategoryStats(): CategoryStats[] {
+    const facts = Array.from(this.getFacts().values());
+    return TASK_CATEGORIES.map((category) => {
+      const inCategory = facts.filter((f) => f.category === category);
+      const summary = this.summarize(inCategory);
+      return {
+        category,
+        totalTasks: inCategory.length,
+        totalVolume: summary.volume.toString(),
+        totalCompleted: summary.completed,
+        completionRate: summary.completionRate,
+        disputeRate: summary.disputeRate,
+        averageTimeToCompletion: summary.averageTimeToCompletion,
+        feeRevenue: summary.fees.toString(),
+      };
+    });
+  }
+
+  getTimeSeries(interval: BucketInterval, from?: number, to?: number, category?: TaskCategory): TimeSeriesBucket[] {
+    const buckets = new Map<string, TimeSeriesBucket & { users: Set<string> }>();
+    const facts = this.getFacts();
+
+    const bucketFor = (timestamp: number) => {
+      const key = bucketStart(timestamp, interval);
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = {
+          bucket: key,
+          tasksCreated: 0,
+          tasksCompleted: 0,
+          tasksCancelled: 0,
+          disputes: 0,
+          volume: '0',
+          feeRevenue: '0',
+          activeUsers: 0,
+          users: new Set(),
+        };
+        buckets.set(key, bucket);
+      }
+      return bucket;
+    };
+
+    const inRange = (event: IndexedEvent) =>
+      (from === undefined || event.timestamp >= from) &&
+      (to === undefined || event.timestamp <= to) &&
+      (category === undefined || facts.get(event.taskId)?.category === category);
+
+    for (const event of this.store.getEvents()) {
+      if (!inRange(event)) continue;
+      const bucket = bucketFor(event.timestamp);
+      const task = facts.get(event.taskId);
+
+      switch (event.name) {
+        case 'TaskCreated':
+          bucket.tasksCreated++;
+          bucket.volume = (BigInt(bucket.volume) + BigInt(String(event.args.bounty))).toString();
+          break;
+        case 'TaskCompleted':
+        case 'DisputeResolved':
+          if (task && isRefund(event, task)) break;
+          bucket.tasksCompleted++;
+          if (task) {
+            bucket.feeRevenue = (BigInt(bucket.feeRevenue) + this.feeOf(event, task)).toString();
+          }
+          break;
+        case 'TaskCancelled':
+          bucket.tasksCancelled++;
+          break;
+        case 'TaskDisputed':
+          bucket.disputes++;
+          break;
+      }
+    }
+
+    this.forEachActor((event, actor) => {
+      if (inRange(event)) {
+        bucketFor(event.timestamp).users.add(actor);
+      }
+    });
+
+    return Array.from(buckets.values())
+      .sort((a, b) => a.bucket.localeCompare(b.bucket))
+      .map(({ users, ...bucket }) => ({ ...bucket, activeUsers: users.size }));
+  }
+
+  private summarize(facts: TaskFacts[]) {
+    const completed = facts.filter((f) => f.completedAt !== null);
+    const cancelled = facts.filter((f) => f.cancelled);
+    const refunded = facts.filter((f) => f.refunded);
+    const assigned = facts.filter((f) => f.assigned);
+    const disputed = facts.filter((f) => f.disputed);
+
+    return {
+      volume: facts.reduce((sum, f) => sum + f.bounty, 0n),
+      fees: facts.reduce((sum, f) => sum + f.fee, 0n),
+      completed: completed.length,
+      cancelled: cancelled.length,
+      disputed: disputed.length,
+      // Share of closed tasks (completed, cancelled or refunded after a dispute) that were completed
+      completionRate: rate(completed.length, completed.length + cancelled.length + refunded.length),
+      // Share of tasks that got a worker and then went to dispute
+      disputeRate: rate(disputed.length, assigned.length),
+      averageTimeToCompletion: average(completed.map((f) => f.completedAt! - f.createdAt)),
+    };
+  }
+
+  /**
+   * The fee TaskManager forwards to feeCollector on a payout. Refunds carry
+   * no fee and never reach here.
+   */
+  private feeOf(event: IndexedEvent, task: TaskFacts): bigint {
+    return task.bounty - BigInt(String(event.args.payment));
+  }
+
+  private forEachActor(callback: (event: IndexedEvent, actor: string) => void): void {
+    const facts = this.getFacts();
+    const workers = new Map<number, string>();
+    for (const event of this.store.getEvents()) {
+      if (event.name === 'TaskAssigned') {
+        workers.set(event.taskId, String(event.args.worker));
+      }
+      for (const actor of actorsOf(event, facts, workers)) {
+        callback(event, actor.toLowerCase());
+      }
+    }
+  }
+
+  private getFacts(): Map<number, TaskFacts> {
+    const events = this.store.getEvents();
+    const version = this.store.getVersion();
+    if (this.memo && this.memo.version === version) {
+      return this.memo.facts;
+    }
+
+    const facts = new Map<number, TaskFacts>();
+    for (const event of events) {
+      if (event.name === 'TaskCreated') {
+        facts.set(event.taskId, {
+          category: event.args.category as TaskCategory,
+          creator: String(event.args.creator),
+          bounty: BigInt(String(event.args.bounty)),
+          createdAt: event.timestamp,
+          assigned: false,
+          disputed: false,
+          completedAt: null,
+          cancelled: false,
+          refunded: false,
+          fee: 0n,
+        });
+        continue;
+      }
+
+      const task = facts.get(event.taskId);
+      if (!task) continue;
+
+      switch (event.name) {
+        case 'TaskAssigned':
+          task.assigned = true;
+          break;
+        case 'TaskCompleted':
+        case 'DisputeResolved':
+          if (isRefund(event, task)) {
+            task.refunded = true;
+            break;
+          }
+          task.completedAt = event.timestamp;
+          task.fee = this.feeOf(event, task);
+          break;
+        case 'TaskCancelled':
+          task.cancelled = true;
+          break;
+        case 'TaskDisputed':
+          task.disputed = true;
+          break;
+      }
+    }
+
+    this.memo = { version, facts };
+    return facts;
+  }
+}
+
+export default new AnalyticsService();
@@ -0,0 +1,243 @@
+import busboy from 'busboy';
+import { IncomingHttpHeaders } from 'http';
+import path from 'path';
+import { Readable } from 'stream';
+import { AppError } from '../middleware/errorHandler';
+import { FileReference } from '../shared/documents';
+import { getDataDir, readJSONFile, writeJSONFile } from '../utils/jsonFile';
+import ipfsService, { IPFSService } from './ipfs';
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'application/x-zip-compressed',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+];
+
+// Regular, empty and spanned archives
+const ZIP_SIGNATURES = [
+  [0x50, 0x4b, 0x03, 0x04],
+  [0x50, 0x4b, 0x05, 0x06],
+  [0x50, 0x4b, 0x07, 0x08],
+];
+
+// Leading bytes of binary types (null matches any byte); a file declared as
+// one of these must start with them
+const SIGNATURES: Record<string, Array<Array<number | null>>> = {
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  'application/zip': ZIP_SIGNATURES,
+  'application/x-zip-compressed': ZIP_SIGNATURES,
+};
+const SIGNATURE_BYTES = 12;
+
+// Shown in the browser; everything else downloads
+const INLINE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'text/plain']);
+
+export interface StoredFile extends FileReference {
+  uploadedBy: string;
+  /** Unix seconds */
+  uploadedAt: number;
+}
+
+type FileSnapshot = Record<string, StoredFile>;
+
+export const getUploadLimits = () => ({
+  maxFileBytes: parseInt(process.env.UPLOAD_MAX_FILE_BYTES || String(25 * 1024 * 1024)),
+  maxFiles: parseInt(process.env.UPLOAD_MAX_FILES || '10'),
+  allowedTypes: (process.env.UPLOAD_ALLOWED_TYPES || DEFAULT_ALLOWED_TYPES.join(','))
+    .split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean),
+});
+
+/**
+ * Count bytes and check the declared type's signature as chunks pass
+ * through, throwing once the file is over the limit
+ */
+async function* checkedContent(
+  source: AsyncIterable<Buffer>,
+  mimeType: string,
+  maxBytes: number,
+  onSize: (size: number) => void
+) {
+  let size = 0;
+  let head: Buffer | null = Buffer.alloc(0);
+  const signatures = SIGNATURES[mimeType];
+
+  const matches = (bytes: Buffer, signature: Array<number | null>) =>
+    signature.every((byte, i) => (byte === null ? i < bytes.length : bytes[i] === byte));
+  const checkSignature = (bytes: Buffer) => {
+    if (signatures && !signatures.some((signature) => matches(bytes, signature))) {
+      throw new AppError(`File content does not match its declared type ${mimeType}`, 415);
+    }
+  };
+
+  for await (const chunk of source) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new AppError(`File exceeds the ${maxBytes}-byte limit`, 413);
+    }
+
+    if (head) {
+      head = Buffer.concat([head, chunk]);
+      if (head.length < SIGNATURE_BYTES) continue;
+      checkSignature(head);
+      yield head;
+      head = null;
+    } else {
+      yield chunk;
+    }
+  }
+
+  if (head) {
+    checkSignature(head);
+    yield head;
+  }
+  onSize(size);
+}
+
+/**
+ * Multipart file uploads streamed to IPFS, with size and MIME allow-lists.
+ * Each file's name and type are kept so downloads get the right headers.
+ */
+export class AttachmentService {
+  private filePath: string;
+  private ipfs: IPFSService;
+  private files: FileSnapshot = {};
+  private loaded: Promise<void> | null = null;
+  // Writes are chained so concurrent uploads never race on the temp file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath = path.join(getDataDir(), 'attachments.json'), ipfs: IPFSService = ipfsService) {
+    this.filePath = filePath;
+    this.ipfs = ipfs;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJSONFile<FileSnapshot>(this.filePath).then((snapshot) => {
+        this.files = snapshot ?? {};
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Stream every file part of a multipart request to IPFS. Files are not
+   * buffered: each chunk goes on to the content store as it is parsed.
+   */
+  async receive(headers: IncomingHttpHeaders, body: Readable, uploadedBy: string): Promise<StoredFile[]> {
+    await this.load();
+    const { maxFileBytes, maxFiles, allowedTypes } = getUploadLimits();
+
+    let parser: busboy.Busboy;
+    try {
+      // One byte over the limit lets checkedContent see the overflow
+      parser = busboy({ headers, limits: { fileSize: maxFileBytes + 1, files: maxFiles } });
+    } catch {
+      throw new AppError('Expected a multipart/form-data request', 400);
+    }
+
+    return new Promise<StoredFile[]>((resolve, reject) => {
+      const uploads: Array<Promise<StoredFile>> = [];
+      let failure: Error | null = null;
+
+      const fail = (error: Error) => {
+        if (!failure) {
+          failure = error;
+          body.unpipe(parser);
+          body.resume();
+          reject(error);
+        }
+      };
+
+      parser.on('file', (_field, file, info) => {
+        const mimeType = info.mimeType.toLowerCase();
+        if (failure) {
+          file.resume();
+          return;
+        }
+        if (!allowedTypes.includes(mimeType)) {
+          file.resume();
+          return fail(new AppError(`File type ${mimeType} is not allowed`, 415));
+        }
+
+        let size = 0;
+        const upload = this.ipfs
+          .uploadStream(checkedContent(file, mimeType, maxFileBytes, (total) => (size = total)))
+          .then((cid) => ({
+            cid,
+            name: path.basename(info.filename || 'file'),
+            mimeType,
+            size,
+            uploadedBy: uploadedBy.toLowerCase(),
+            uploadedAt: Math.floor(Date.now() / 1000),
+          }));
+        // Stop reading the request as soon as one file fails
+        upload.catch((error) => {
+          file.resume();
+          fail(error);
+        });
+        uploads.push(upload);
+      });
+      parser.on('filesLimit', () => fail(new AppError(`At most ${maxFiles} files can be uploaded at once`, 413)));
+      parser.on('error', (error: Error) => fail(new AppError(`Malformed multipart body: ${error.message}`, 400)));
+      parser.on('close', () => {
+        Promise.all(uploads)
+          .then(async (files) => {
+            if (failure) return;
+            if (files.length === 0) {
+              return fail(new AppError('No files in the request', 400));
+            }
+            for (const file of files) {
+              this.files[file.cid] = file;
+            }
+            await this.save();
+            resolve(files);
+          })
+          .catch(fail);
+      });
+
+      body.pipe(parser);
+    });
+  }
+
+  async get(cid: string): Promise<StoredFile | null> {
+    await this.load();
+    return this.files[cid] ?? null;
+  }
+
+  /**
+   * Headers for serving a file. Unknown CIDs download as octet-stream.
+   */
+  async getDownloadHeaders(cid: string): Promise<Record<string, string>> {
+    const file = await this.get(cid);
+    if (!file) {
+      return { 'Content-Type': 'application/octet-stream' };
+    }
+    const disposition = INLINE_TYPES.has(file.mimeType) ? 'inline' : 'attachment';
+    return {
+      'Content-Type': file.mimeType,
+      'Content-Length': String(file.size),
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+    };
+  }
+
+  private async save(): Promise<void> {
+    const snapshot = this.files;
+    this.saving = this.saving.catch(() => undefined).then(() => writeJSONFile(this.filePath, snapshot));
+    await this.saving;
+  }
+}
+
+export default new AttachmentService();
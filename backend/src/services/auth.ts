@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import jwt from 'jsonwebtoken';
+import { AppError } from '../middleware/errorHandler';
+import { parseSiweMessage, SiweMessage } from '../utils/siwe';
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+// Tolerated clock difference between the wallet and the server
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface AuthSession {
+  address: string;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+interface SessionClaims {
+  sub: string;
+  chainId: number;
+  iat: number;
+  exp: number;
+}
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new AppError('Authentication is not configured', 503);
+  }
+  return secret;
+};
+
+/**
+ * Domains allowed in SIWE messages, from SIWE_DOMAINS or the FRONTEND_URL host
+ */
+const getAllowedDomains = (): string[] => {
+  if (process.env.SIWE_DOMAINS) {
+    return process.env.SIWE_DOMAINS.split(',').map((d) => d.trim());
+  }
+  return [new URL(process.env.FRONTEND_URL || 'http://localhost:3000').host];
+};
+
+/**
+ * Chains allowed in SIWE messages, from SIWE_CHAIN_IDS or the chains the
+ * frontend supports (Polygon, Mumbai and a local Hardhat node)
+ */
+const getAllowedChainIds = (): number[] =>
+  (process.env.SIWE_CHAIN_IDS || '137,80001,31337').split(',').map((id) => Number(id.trim()));
+
+/**
+ * Sign-In with Ethereum: nonce issuance, message verification and JWT sessions
+ */
+export class AuthService {
+  private nonces = new Map<string, number>();
+
+  issueNonce(): string {
+    this.pruneNonces();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    this.nonces.set(nonce, Date.now() + NONCE_TTL_MS);
+    return nonce;
+  }
+
+  /**
+   * Verify a signed SIWE message and return a session token
+   */
+  async signIn(message: string, signature: string): Promise<{ token: string; session: AuthSession }> {
+    let siwe: SiweMessage;
+    try {
+      siwe = parseSiweMessage(message);
+    } catch (error: any) {
+      throw new AppError(`Invalid SIWE message: ${error.message}`, 400);
+    }
+
+    this.validate(siwe);
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(message, signature);
+    } catch {
+      throw new AppError('Invalid signature', 401);
+    }
+    if (recovered.toLowerCase() !== siwe.address.toLowerCase()) {
+      throw new AppError('Signature does not match address', 401);
+    }
+
+    // Nonces are single use
+    this.nonces.delete(siwe.nonce);
+
+    const address = ethers.getAddress(siwe.address);
+    const token = jwt.sign({ chainId: siwe.chainId }, getJwtSecret(), {
+      subject: address,
+      expiresIn: (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'],
+    });
+
+    return { token, session: this.verifyToken(token) };
+  }
+
+  verifyToken(token: string): AuthSession {
+    let claims: SessionClaims;
+    try {
+      claims = jwt.verify(token, getJwtSecret()) as SessionClaims;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Invalid or expired session', 401);
+    }
+
+    return {
+      address: claims.sub,
+      chainId: claims.chainId,
+      issuedAt: claims.iat,
+      expiresAt: claims.exp,
+    };
+  }
+
+  private validate(siwe: SiweMessage): void {
+    if (!getAllowedDomains().includes(siwe.domain)) {
+      throw new AppError('SIWE domain not allowed', 401);
+    }
+    let uri: URL;
+    try {
+      uri = new URL(siwe.uri);
+    } catch {
+      throw new AppError('Invalid SIWE message', 400);
+    }
+    if (uri.host !== siwe.domain) {
+      throw new AppError('SIWE URI does not match domain', 401);
+    }
+    if (!getAllowedChainIds().includes(siwe.chainId)) {
+      throw new AppError('SIWE chain not allowed', 401);
+    }
+    if (siwe.version !== '1') {
+      throw new AppError('Unsupported SIWE version', 400);
+    }
+
+    const expiresAt = this.nonces.get(siwe.nonce);
+    if (!expiresAt || expiresAt < Date.now()) {
+      throw new AppError('Unknown or expired nonce', 401);
+    }
+
+    const now = Date.now();
+    const issuedAt = Date.parse(siwe.issuedAt);
+    if (Number.isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS) {
+      throw new AppError('Invalid issued-at time', 401);
+    }
+    if (siwe.expirationTime && Date.parse(siwe.expirationTime) <= now) {
+      throw new AppError('SIWE message expired', 401);
+    }
+    if (siwe.notBefore && Date.parse(siwe.notBefore) > now + CLOCK_SKEW_MS) {
+      throw new AppError('SIWE message not yet valid', 401);
+    }
+  }
+
+  private pruneNonces(): void {
+    const now = Date.now();
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt < now) {
+        this.nonces.delete(nonce);
+      }
+    }
+  }
+}
+
+export default new AuthService();
@@ -0,0 +1,261 @@
+import { ethers } from 'ethers';
+import { IndexedTask, TaskCategory } from '../types/task';
+import claudeAI, { AIProvenance, ComplexityEstimate } from './claudeAI';
+import recommendations, { RecommendationEngine } from './recommendations';
+import taskMetadata from './taskMetadata';
+import taskStore, { TaskStore } from './taskStore';
+
+// Completed tasks that contribute to a price
+const MAX_COMPARABLES = 15;
+// Comparables with a lower weight than this are ignored
+const MIN_WEIGHT = 0.05;
+// How many comparables the history needs before it outweighs the AI estimate
+const HISTORY_PRIOR = 4;
+// A completion the worker had to win in a dispute says less about what the work was worth
+const DISPUTE_DISCOUNT = 0.5;
+const CATEGORY_WEIGHT = 0.3;
+const TEXT_WEIGHT = 0.7;
+
+export interface PricingRequest {
+  description: string;
+  requirements: string;
+  category?: TaskCategory;
+}
+
+export interface Comparable {
+  taskId: number;
+  title: string | null;
+  category: TaskCategory;
+  /** Bounty in TASKZ */
+  bounty: number;
+  hoursToComplete: number;
+  disputed: boolean;
+  similarity: number;
+  /** Share of the historical price this task accounts for */
+  weight: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface BountyPrice {
+  /** All amounts are in TASKZ. Null when there is neither history nor an AI estimate (`basis: 'none'`). */
+  suggestedBounty: number | null;
+  range: { low: number; high: number } | null;
+  basis: 'history' | 'history+ai' | 'ai' | 'none';
+  /** Weighted percentiles of comparable bounties; null without history */
+  percentiles: Percentiles | null;
+  sampleSize: number;
+  disputeRate: number | null;
+  medianHoursToComplete: number | null;
+  weights: { history: number; ai: number };
+  aiEstimate: ComplexityEstimate & { provenance: AIProvenance };
+  /** Comparables that drove the price, most influential first */
+  comparables: Comparable[];
+  explanation: string;
+}
+
+interface Sample {
+  task: IndexedTask;
+  bounty: number;
+  hoursToComplete: number;
+  disputed: boolean;
+  similarity: number;
+  weight: number;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Percentile of weighted values: the first value whose cumulative weight
+ * reaches the requested share of the total
+ */
+const weightedPercentile = (samples: Array<{ value: number; weight: number }>, share: number): number => {
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, s) => sum + s.weight, 0);
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.weight;
+    if (cumulative >= share * total) {
+      return sample.value;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+};
+
+const workerWon = (task: IndexedTask) =>
+  task.worker !== null && task.disputeWinner !== null && task.disputeWinner.toLowerCase() === task.worker.toLowerCase();
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Bounty suggestions calibrated on indexed completions. Similar completed
+ * tasks (by text and category) give a weighted price distribution, which is
+ * blended with the AI complexity estimate; the more comparables, the less
+ * the AI guess counts.
+ */
+export class BountyPricingService {
+  private store: TaskStore;
+  private engine: RecommendationEngine;
+
+  constructor(store: TaskStore = taskStore, engine: RecommendationEngine = recommendations) {
+    this.store = store;
+    this.engine = engine;
+  }
+
+  /**
+   * @param caller Wallet the AI estimate is billed to
+   */
+  async price(request: PricingRequest, caller?: string): Promise<BountyPrice> {
+    const [estimate, samples] = await Promise.all([
+      claudeAI.estimateTaskComplexity(request.description, request.requirements, { wallet: caller }),
+      this.findComparables(request),
+    ]);
+    const { data: ai, ...provenance } = estimate;
+    const aiUsable = provenance.source !== 'fallback';
+
+    const sampleSize = samples.length;
+    const historyWeight = sampleSize === 0 ? 0 : aiUsable ? sampleSize / (sampleSize + HISTORY_PRIOR) : 1;
+    const aiWeight = 1 - historyWeight;
+
+    let percentiles: Percentiles | null = null;
+    let suggestedBounty = ai.suggestedBounty;
+    let range = { low: ai.suggestedBounty * 0.75, high: ai.suggestedBounty * 1.25 };
+
+    if (sampleSize > 0) {
+      const values = samples.map((s) => ({ value: s.bounty, weight: s.weight }));
+      percentiles = {
+        p10: weightedPercentile(values, 0.1),
+        p25: weightedPercentile(values, 0.25),
+        p50: weightedPercentile(values, 0.5),
+        p75: weightedPercentile(values, 0.75),
+        p90: weightedPercentile(values, 0.9),
+      };
+      suggestedBounty = historyWeight * percentiles.p50 + aiWeight * ai.suggestedBounty;
+      range = {
+        low: historyWeight * percentiles.p25 + aiWeight * range.low,
+        high: historyWeight * percentiles.p75 + aiWeight * range.high,
+      };
+    }
+
+    const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+    const comparables = await Promise.all(
+      samples.slice(0, 5).map(async (sample) => ({
+        taskId: sample.task.id,
+        title: await this.titleOf(sample.task),
+        category: sample.task.category,
+        bounty: round(sample.bounty),
+        hoursToComplete: round(sample.hoursToComplete, 1),
+        disputed: sample.disputed,
+        similarity: round(sample.similarity, 3),
+        weight: round(sample.weight / totalWeight, 3),
+      }))
+    );
+
+    // The fallback estimate is a placeholder, so without history there is no price to give
+    const priced = sampleSize > 0 || aiUsable;
+    const result: BountyPrice = {
+      suggestedBounty: priced ? round(suggestedBounty) : null,
+      range: priced ? { low: round(range.low), high: round(range.high) } : null,
+      basis: !priced ? 'none' : sampleSize === 0 ? 'ai' : historyWeight === 1 ? 'history' : 'history+ai',
+      percentiles,
+      sampleSize,
+      disputeRate: sampleSize === 0 ? null : round(samples.filter((s) => s.disputed).length / sampleSize, 3),
+      medianHoursToComplete: median(samples.map((s) => s.hoursToComplete)),
+      weights: { history: round(historyWeight, 3), ai: round(aiWeight, 3) },
+      aiEstimate: { ...ai, provenance },
+      comparables,
+      explanation: '',
+    };
+    result.explanation = this.explain(result, aiUsable);
+    return result;
+  }
+
+  /**
+   * Completed tasks scored by text similarity and category match, most
+   * similar first. Disputes the creator won end in a refund, not a payment,
+   * so they are left out
+   */
+  private async findComparables(request: PricingRequest): Promise<Sample[]> {
+    const completed = this.store
+      .getTasks()
+      .filter((t) => t.status === 'Completed' && t.completedAt !== null && (t.disputedBy === null || workerWon(t)));
+    if (completed.length === 0) return [];
+
+    const similarity = await this.engine.similarities(
+      `${request.description}\n${request.requirements}`,
+      completed
+    );
+
+    return completed
+      .map((task) => {
+        const textScore = Math.max(0, similarity.get(task.id) ?? 0);
+        const categoryScore = request.category ? (task.category === request.category ? 1 : 0) : textScore;
+        const disputed = task.disputeWinner !== null;
+        const score = TEXT_WEIGHT * textScore + CATEGORY_WEIGHT * categoryScore;
+        return {
+          task,
+          bounty: Number(ethers.formatEther(task.bounty)),
+          hoursToComplete: (task.completedAt! - task.createdAt) / 3600,
+          disputed,
+          similarity: score,
+          weight: disputed ? score * DISPUTE_DISCOUNT : score,
+        };
+      })
+      .filter((sample) => sample.weight >= MIN_WEIGHT)
+      .sort((a, b) => b.weight - a.weight || a.task.id - b.task.id)
+      .slice(0, MAX_COMPARABLES);
+  }
+
+  private async titleOf(task: IndexedTask): Promise<string | null> {
+    const metadata = await taskMetadata.get(task.ipfsHash);
+    return metadata?.title ?? null;
+  }
+
+  private explain(price: BountyPrice, aiUsable: boolean): string {
+    const ai = price.aiEstimate;
+    const aiText = aiUsable
+      ? `the AI estimate of ${round(ai.suggestedBounty)} TASKZ (${ai.complexity}, about ${ai.estimatedHours}h)`
+      : null;
+
+    if (!price.percentiles) {
+      return aiText
+        ? `No comparable completed tasks yet, so this is ${aiText}.`
+        : 'No comparable completed tasks and no AI estimate are available, so there is no suggested bounty.';
+    }
+
+    const { p25, p50, p75 } = price.percentiles;
+    const closest = price.comparables
+      .slice(0, 3)
+      .map(
+        (c) =>
+          `#${c.taskId}${c.title ? ` "${c.title}"` : ''} (${c.bounty} TASKZ, ${c.hoursToComplete}h${c.disputed ? ', disputed' : ''})`
+      )
+      .join(', ');
+
+    const parts = [
+      `Based on ${price.sampleSize} comparable completed task${price.sampleSize === 1 ? '' : 's'} with a weighted median of ${p50} TASKZ (p25 ${p25}, p75 ${p75}).`,
+      `Most influential: ${closest}.`,
+    ];
+    if (aiText && price.weights.ai > 0) {
+      parts.push(
+        `Blended ${Math.round(price.weights.history * 100)}% history with ${Math.round(price.weights.ai * 100)}% ${aiText}.`
+      );
+    } else if (!aiUsable) {
+      parts.push('The AI estimate was unavailable, so history alone sets the price.');
+    }
+    return parts.join(' ');
+  }
+}
+
+export default new BountyPricingService();
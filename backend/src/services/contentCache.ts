@@ -0,0 +1,42 @@
+/**
+ * In-memory LRU of IPFS content, bounded by total bytes. A CID always names
+ * the same bytes, so entries never go stale and are only evicted for space.
+ */
+export class ContentCache {
+  private entries = new Map<string, Buffer>();
+  private size = 0;
+  private maxBytes: number;
+
+  constructor(maxBytes = parseInt(process.env.IPFS_CACHE_MAX_BYTES || String(64 * 1024 * 1024))) {
+    this.maxBytes = maxBytes;
+  }
+
+  get(cid: string): Buffer | undefined {
+    const content = this.entries.get(cid);
+    if (content) {
+      // Re-insert so eviction drops the least recently used entry
+      this.entries.delete(cid);
+      this.entries.set(cid, content);
+    }
+    return content;
+  }
+
+  set(cid: string, content: Buffer): void {
+    if (content.length > this.maxBytes) return;
+
+    this.delete(cid);
+    this.entries.set(cid, content);
+    this.size += content.length;
+    while (this.size > this.maxBytes) {
+      this.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  private delete(cid: string): void {
+    const content = this.entries.get(cid);
+    if (content) {
+      this.entries.delete(cid);
+      this.size -= content.length;
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+import { getContractAddresses, getProvider } from '../config/blockchain';
+import { DAO_ABI } from '../contracts/abis';
+import { AppError } from '../middleware/errorHandler';
+import { DisputeProposal, PROPOSAL_STATES } from '../types/dispute';
+import claudeAI, { AIResult, DisputeBrief } from './claudeAI';
+import { loadDocumentText } from './documentLoader';
+import taskStore from './taskStore';
+
+const LIST_CACHE_TTL_MS = 30 * 1000;
+
+export interface DisputeSummary {
+  proposal: DisputeProposal;
+  brief: AIResult<DisputeBrief>;
+  /** Documents that could not be loaded from IPFS */
+  missingDocuments: Array<'taskSpec' | 'evidence' | 'submission'>;
+}
+
+/**
+ * Reads dispute proposals from TaskChainzDAO and builds AI briefs of the
+ * evidence behind them
+ */
+export class DisputeService {
+  private proposalIds: Array<{ proposalId: string; blockNumber: number }> = [];
+  private scannedToBlock: number | null = null;
+  private listCache: { proposals: DisputeProposal[]; expiresAt: number } | null = null;
+  private summaries = new Map<string, DisputeSummary>();
+
+  /**
+   * All dispute proposals, newest first
+   */
+  async listProposals(): Promise<DisputeProposal[]> {
+    if (this.listCache && this.listCache.expiresAt > Date.now()) {
+      return this.listCache.proposals;
+    }
+
+    const dao = this.getContract();
+    await this.scanNewProposals(dao);
+
+    const proposals = await Promise.all(
+      this.proposalIds.map(({ proposalId, blockNumber }) => this.readProposal(dao, proposalId, blockNumber))
+    );
+    proposals.reverse();
+
+    this.listCache = { proposals, expiresAt: Date.now() + LIST_CACHE_TTL_MS };
+    return proposals;
+  }
+
+  async getProposal(proposalId: string): Promise<DisputeProposal> {
+    if (!/^\d+$/.test(proposalId)) {
+      throw new AppError('Invalid proposal ID', 400);
+    }
+
+    const dao = this.getContract();
+    const proposal = await this.readProposal(dao, proposalId, null);
+    if (proposal.creator === ethers.ZeroAddress) {
+      throw new AppError('Dispute proposal not found', 404);
+    }
+    return proposal;
+  }
+
+  /**
+   * Neutral brief of the task spec, dispute evidence and submission. Model
+   * briefs are cached: the documents behind a proposal are immutable.
+   * A fresh brief is billed to `caller`.
+   */
+  async summarize(proposalId: string, caller?: string): Promise<DisputeSummary> {
+    const cached = this.summaries.get(proposalId);
+    if (cached) {
+      return { ...cached, proposal: await this.getProposal(proposalId) };
+    }
+
+    const proposal = await this.getProposal(proposalId);
+    const task = taskStore.getTask(proposal.taskId);
+    if (!task) {
+      throw new AppError('Disputed task has not been indexed yet', 404);
+    }
+
+    const [taskSpec, evidence, submission] = await Promise.all([
+      loadDocumentText('task', task.ipfsHash),
+      loadDocumentText('evidence', proposal.evidenceHash),
+      task.submissionHash ? loadDocumentText('submission', task.submissionHash) : Promise.resolve(null),
+    ]);
+
+    const missingDocuments: DisputeSummary['missingDocuments'] = [];
+    if (taskSpec === null) missingDocuments.push('taskSpec');
+    if (evidence === null) missingDocuments.push('evidence');
+    if (task.submissionHash && submission === null) missingDocuments.push('submission');
+
+    const disputedBy = task.disputedBy?.toLowerCase();
+    const brief = await claudeAI.summarizeDispute({
+      taskSpec: taskSpec ?? '(the task specification could not be retrieved)',
+      evidence: evidence ?? '(the dispute evidence could not be retrieved)',
+      submission: task.submissionHash ? submission ?? '(the submission could not be retrieved)' : null,
+      disputedBy:
+        disputedBy === task.creator.toLowerCase()
+          ? 'creator'
+          : disputedBy && disputedBy === task.worker?.toLowerCase()
+            ? 'worker'
+            : null,
+    }, { wallet: caller });
+
+    const summary = { proposal, brief, missingDocuments };
+    if (brief.source !== 'fallback' && missingDocuments.length === 0) {
+      this.summaries.set(proposalId, summary);
+    }
+    return summary;
+  }
+
+  private getContract(): ethers.Contract {
+    const { dao } = getContractAddresses();
+    if (!dao) {
+      throw new AppError('DAO is not configured', 503);
+    }
+    return new ethers.Contract(dao, DAO_ABI, getProvider());
+  }
+
+  /**
+   * Pick up DisputeProposalCreated events since the last scan, in batches
+   */
+  private async scanNewProposals(dao: ethers.Contract): Promise<void> {
+    const latest = await getProvider().getBlockNumber();
+    const batchSize = parseInt(process.env.INDEXER_BATCH_SIZE || '2000');
+    let from =
+      this.scannedToBlock === null ? parseInt(process.env.INDEXER_START_BLOCK || '0') : this.scannedToBlock + 1;
+
+    while (from <= latest) {
+      const to = Math.min(from + batchSize - 1, latest);
+      const logs = await dao.queryFilter(dao.filters.DisputeProposalCreated(), from, to);
+      for (const log of logs) {
+        if ('args' in log) {
+          this.proposalIds.push({ proposalId: log.args.proposalId.toString(), blockNumber: log.blockNumber });
+        }
+      }
+      this.scannedToBlock = to;
+      from = to + 1;
+    }
+  }
+
+  private async readProposal(
+    dao: ethers.Contract,
+    proposalId: string,
+    blockNumber: number | null
+  ): Promise<DisputeProposal> {
+    const [dispute, state] = await Promise.all([
+      dao.getDisputeProposal(proposalId),
+      // state() reverts for unknown proposals
+      dao.state(proposalId).catch(() => null),
+    ]);
+
+    return {
+      proposalId,
+      taskId: Number(dispute.taskId),
+      creator: dispute.creator,
+      worker: dispute.worker,
+      evidenceHash: dispute.ipfsHash,
+      resolved: dispute.resolved,
+      favorCreator: dispute.favorCreator,
+      state: state === null ? null : PROPOSAL_STATES[Number(state)],
+      blockNumber:
+        blockNumber ?? this.proposalIds.find((entry) => entry.proposalId === proposalId)?.blockNumber ?? null,
+    };
+  }
+}
+
+export default new DisputeService();
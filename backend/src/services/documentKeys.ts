@@ -0,0 +1,154 @@
+import path from 'path';
+import { AppError } from '../middleware/errorHandler';
+import { WrappedKey } from '../shared/encryption';
+import { IndexedTask } from '../types/task';
+import { getDataDir, readJSONFile, writeJSONFile } from '../utils/jsonFile';
+import accessControl from './accessControl';
+import taskStore from './taskStore';
+
+export const TASK_DOCUMENTS = ['brief', 'submission'] as const;
+export type TaskDocument = (typeof TASK_DOCUMENTS)[number];
+
+export interface EncryptionPublicKey {
+  address: string;
+  publicKey: string;
+  /** Unix seconds */
+  updatedAt: number;
+}
+
+export interface KeyGrant extends WrappedKey {
+  grantedBy: string;
+  /** Unix seconds */
+  grantedAt: number;
+}
+
+interface DocumentKeySnapshot {
+  publicKeys: Record<string, EncryptionPublicKey>;
+  /** Keyed by CID, then recipient */
+  grants: Record<string, Record<string, KeyGrant>>;
+}
+
+/**
+ * Encryption public keys and the wrapped content keys that give readers
+ * access to a task's encrypted brief or submission. Everything stored here is
+ * useless without a recipient's private key.
+ *
+ * Only the task's creator and assigned worker can grant access, and only to
+ * each other or, once the task has been disputed, to holders of
+ * DISPUTE_RESOLVER_ROLE.
+ */
+export class DocumentKeyService {
+  private filePath: string;
+  private snapshot: DocumentKeySnapshot = { publicKeys: {}, grants: {} };
+  private loaded: Promise<void> | null = null;
+  // Writes are chained so concurrent grants never race on the temp file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath = path.join(getDataDir(), 'document-keys.json')) {
+    this.filePath = filePath;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJSONFile<DocumentKeySnapshot>(this.filePath).then((snapshot) => {
+        this.snapshot = snapshot ?? { publicKeys: {}, grants: {} };
+      });
+    }
+    return this.loaded;
+  }
+
+  async setPublicKey(address: string, publicKey: string): Promise<EncryptionPublicKey> {
+    await this.load();
+    const entry = { address: address.toLowerCase(), publicKey, updatedAt: Math.floor(Date.now() / 1000) };
+    this.snapshot.publicKeys[entry.address] = entry;
+    await this.save();
+    return entry;
+  }
+
+  async getPublicKey(address: string): Promise<EncryptionPublicKey | null> {
+    await this.load();
+    return this.snapshot.publicKeys[address.toLowerCase()] ?? null;
+  }
+
+  /**
+   * Store content keys wrapped for other readers. Existing grants are never
+   * replaced, so one party can't swap out the key another was given.
+   *
+   * @returns Recipients that were newly granted access
+   */
+  async grant(taskId: number, document: TaskDocument, granter: string, keys: WrappedKey[]): Promise<string[]> {
+    await this.load();
+    const task = this.getTask(taskId);
+    const cid = this.getCid(task, document);
+
+    if (!this.isParty(task, granter)) {
+      throw new AppError('Only the task creator or assigned worker can share its keys', 403);
+    }
+    for (const key of keys) {
+      if (!(await this.canRead(task, key.recipient))) {
+        throw new AppError(`${key.recipient} cannot be given access to this task`, 403);
+      }
+    }
+
+    const grants = (this.snapshot.grants[cid] ??= {});
+    const granted: string[] = [];
+    for (const key of keys) {
+      if (grants[key.recipient]) continue;
+      grants[key.recipient] = { ...key, grantedBy: granter.toLowerCase(), grantedAt: Math.floor(Date.now() / 1000) };
+      granted.push(key.recipient);
+    }
+    if (granted.length > 0) {
+      await this.save();
+    }
+    return granted;
+  }
+
+  /**
+   * The caller's wrapped key for a task document and who else has one
+   */
+  async getGrants(
+    taskId: number,
+    document: TaskDocument,
+    reader: string
+  ): Promise<{ key: KeyGrant | null; recipients: string[] }> {
+    await this.load();
+    const task = this.getTask(taskId);
+    const grants = this.snapshot.grants[this.getCid(task, document)] ?? {};
+    return { key: grants[reader.toLowerCase()] ?? null, recipients: Object.keys(grants) };
+  }
+
+  private getTask(taskId: number): IndexedTask {
+    const task = taskStore.getTask(taskId);
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+    return task;
+  }
+
+  private getCid(task: IndexedTask, document: TaskDocument): string {
+    if (document === 'brief') {
+      return task.ipfsHash;
+    }
+    if (!task.submissionHash) {
+      throw new AppError('Task has no submission', 409);
+    }
+    return task.submissionHash;
+  }
+
+  private isParty(task: IndexedTask, address: string): boolean {
+    const lower = address.toLowerCase();
+    return lower === task.creator.toLowerCase() || lower === task.worker?.toLowerCase();
+  }
+
+  private async canRead(task: IndexedTask, address: string): Promise<boolean> {
+    return this.isParty(task, address) || (task.disputedBy !== null && accessControl.isDisputeResolver(address));
+  }
+
+  private async save(): Promise<void> {
+    const snapshot = this.snapshot;
+    this.saving = this.saving.catch(() => undefined).then(() => writeJSONFile(this.filePath, snapshot));
+    await this.saving;
+  }
+}
+
+export default new DocumentKeyService();
@@ -0,0 +1,43 @@
+import { DocumentKind, parseDocument } from '../shared/documents';
+import { isEncryptedDocument } from '../shared/encryption';
+import ipfsService from './ipfs';
+
+// Documents are cut to this length before they go into a prompt
+const MAX_DOCUMENT_CHARS = 12000;
+
+/**
+ * Fetch an IPFS document as prompt-ready text: documents of a known version
+ * are migrated to the current schema, JSON is pretty-printed and long
+ * documents are truncated. Content that is not a valid document of the
+ * given kind is used as is. Returns null when the document can't be read
+ * or is end-to-end encrypted.
+ */
+export async function loadDocumentText(
+  kind: DocumentKind,
+  cid: string,
+  maxChars = MAX_DOCUMENT_CHARS
+): Promise<string | null> {
+  try {
+    let text = await ipfsService.getText(cid);
+    let raw: unknown = text;
+    try {
+      raw = JSON.parse(text);
+      text = JSON.stringify(raw, null, 2);
+    } catch {
+      // Not JSON; use as is
+    }
+
+    if (isEncryptedDocument(raw)) {
+      return null;
+    }
+
+    const document = parseDocument(kind, raw);
+    if (document.success) {
+      text = JSON.stringify(document.data, null, 2);
+    }
+    return text.length > maxChars ? `${text.slice(0, maxChars)}\n[truncated]` : text;
+  } catch (error) {
+    console.error(`Error loading document ${cid}:`, error);
+    return null;
+  }
+}
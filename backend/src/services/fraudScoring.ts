@@ -0,0 +1,380 @@
+import { ethers } from 'ethers';
+import { TaskMetadata } from '../shared/documents';
+import { IndexedEvent, IndexedTask, TaskCategory } from '../types/task';
+import claudeAI, { AIProvenance, FraudAssessment } from './claudeAI';
+import { rateInjection } from './llm';
+import moderation from './moderation';
+import reputation from './reputation';
+import taskMetadata from './taskMetadata';
+import taskStore, { TaskStore } from './taskStore';
+import type { TaskIndexer } from './taskIndexer';
+
+// Peers needed in a category before a bounty can be called anomalous
+const MIN_BOUNTY_PEERS = 5;
+const DAY = 86400;
+
+export type FraudSignalId =
+  | 'cancellationRate'
+  | 'disputeLosses'
+  | 'accountAge'
+  | 'bountyAnomaly'
+  | 'aiAssessment'
+  | 'promptInjection';
+
+/**
+ * One input to the score. `points` is what it added, out of `maxPoints`;
+ * the signals' maxima sum to 100.
+ */
+export interface FraudSignal {
+  id: FraudSignalId;
+  value: number | string | null;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+/**
+ * Creator statistics built server-side from indexed tasks and ReputationNFT
+ */
+export interface CreatorHistory {
+  tasksCreated: number;
+  tasksCompleted: number;
+  tasksCancelled: number;
+  tasksDisputed: number;
+  disputesLost: number;
+  /** First indexed activity (task created or assigned), unix seconds */
+  firstSeenAt: number | null;
+  reputation: { score: string; tier: string; tasksCompleted: string; disputesLost: string } | null;
+}
+
+export interface FraudScore {
+  score: number;
+  level: 'low' | 'medium' | 'high';
+  /** Over the threshold, or the AI check was unavailable */
+  flagged: boolean;
+  threshold: number;
+  /** The AI check failed, so the heuristics alone can't clear the task */
+  aiUnavailable: boolean;
+  signals: FraudSignal[];
+  history: CreatorHistory;
+  /** Null when there was no text to assess */
+  ai: (FraudAssessment & { provenance: AIProvenance }) | null;
+  scoredAt: number;
+}
+
+export interface FraudScoringInput {
+  creator: string;
+  /**
+   * Task text shown to the AI check. Null for an encrypted brief, which is
+   * scored on the creator's history and the bounty alone.
+   */
+  text: string | null;
+  /** The task has text but it could not be loaded, so the AI check counts as unavailable */
+  textUnavailable?: boolean;
+  /** Bounty in wei */
+  bounty?: string;
+  category?: TaskCategory;
+  /** The indexed task being scored, left out of its own creator's history */
+  taskId?: number;
+  /** Wallet the AI check is billed to; omitted for indexer scoring */
+  caller?: string;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const sameAddress = (a: string | null | undefined, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Server-side fraud score. Rule-based signals from the creator's indexed
+ * history and on-chain reputation are added to the AI assessment, and every
+ * signal reports its contribution so a moderator can see why a task was
+ * flagged. The prompt-injection screen is scored on its own, whether or not
+ * the model answered. A task the AI could not assess is flagged whatever its
+ * score. Flagged indexed tasks go to the moderation queue.
+ */
+export class FraudScoringService {
+  private store: TaskStore;
+
+  constructor(store: TaskStore = taskStore) {
+    this.store = store;
+  }
+
+  async score(input: FraudScoringInput): Promise<FraudScore> {
+    const history = await this.buildHistory(input.creator, input.taskId);
+    let ai: FraudScore['ai'] = null;
+    if (input.text !== null) {
+      const { data, ...provenance } = await claudeAI.detectFraud(input.text, history, { wallet: input.caller });
+      ai = { ...data, provenance };
+    }
+
+    const skipped = input.textUnavailable ? 'Task text could not be loaded' : 'Brief is encrypted';
+    const signals = [
+      this.cancellationSignal(history),
+      this.disputeSignal(history),
+      this.accountAgeSignal(history),
+      this.bountySignal(input),
+      this.aiSignal(ai, skipped),
+      this.injectionSignal(ai, skipped),
+    ];
+
+    const score = Math.min(100, round(signals.reduce((sum, signal) => sum + signal.points, 0)));
+    const threshold = parseInt(process.env.FRAUD_FLAG_THRESHOLD || '40');
+    const aiUnavailable = input.textUnavailable === true || ai?.provenance.source === 'fallback';
+    return {
+      score,
+      level: score >= 70 ? 'high' : score >= 40 ? 'medium' : 'low',
+      flagged: score >= threshold || aiUnavailable,
+      threshold,
+      aiUnavailable,
+      signals,
+      history,
+      ai,
+      scoredAt: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  /**
+   * Score newly indexed tasks and queue the flagged ones for moderation
+   */
+  attach(indexer: TaskIndexer): void {
+    indexer.on('event', (event: IndexedEvent) => {
+      if (event.name !== 'TaskCreated') return;
+      this.scoreTask(event.taskId).catch((error) =>
+        console.error(`Error scoring task ${event.taskId}:`, error?.message ?? error)
+      );
+    });
+  }
+
+  async scoreTask(taskId: number): Promise<FraudScore | null> {
+    const task = this.store.getTask(taskId);
+    if (!task) return null;
+
+    // Private briefs and unreadable metadata are never sent to the AI as if they were the task
+    const lookup = await taskMetadata.lookup(task.ipfsHash);
+    const result = await this.score({
+      creator: task.creator,
+      text: lookup.status === 'found' ? this.taskText(task, lookup.metadata) : null,
+      textUnavailable: lookup.status === 'unavailable',
+      bounty: task.bounty,
+      category: task.category,
+      taskId: task.id,
+    });
+
+    if (result.flagged) {
+      await moderation.flag(
+        { type: 'task', taskId },
+        {
+          source: 'fraud',
+          reasons: [
+            ...result.signals.filter((signal) => signal.points > 0).map((signal) => signal.detail),
+            ...(result.aiUnavailable ? ['AI check unavailable; needs a manual review'] : []),
+          ],
+          fraud: result,
+        }
+      );
+    }
+    return result;
+  }
+
+  private async buildHistory(creator: string, excludeTaskId?: number): Promise<CreatorHistory> {
+    const tasks = this.store.getTasks().filter((t) => t.id !== excludeTaskId);
+    const created = tasks.filter((t) => sameAddress(t.creator, creator));
+    const disputed = tasks.filter(
+      (t) => t.disputeWinner !== null && (sameAddress(t.creator, creator) || sameAddress(t.worker, creator))
+    );
+
+    const activity = this.store
+      .getEvents()
+      .filter(
+        (e) =>
+          e.taskId !== excludeTaskId &&
+          ((e.name === 'TaskCreated' && sameAddress(String(e.args.creator), creator)) ||
+            (e.name === 'TaskAssigned' && sameAddress(String(e.args.worker), creator)))
+      )
+      .map((e) => e.timestamp);
+
+    let summary = null;
+    try {
+      summary = await reputation.getSummary(creator);
+    } catch (error: any) {
+      console.error('Error loading reputation for fraud scoring:', error?.message ?? error);
+    }
+
+    const indexedLosses = disputed.filter((t) => !sameAddress(t.disputeWinner, creator)).length;
+    return {
+      tasksCreated: created.length,
+      tasksCompleted: created.filter((t) => t.status === 'Completed').length,
+      tasksCancelled: created.filter((t) => t.status === 'Cancelled').length,
+      tasksDisputed: created.filter((t) => t.disputedBy !== null).length,
+      // The NFT counts disputes from before the indexer's start block too
+      disputesLost: Math.max(indexedLosses, summary ? Number(summary.disputesLost) : 0),
+      firstSeenAt: activity.length > 0 ? Math.min(...activity) : null,
+      reputation: summary
+        ? {
+            score: summary.score,
+            tier: summary.tier,
+            tasksCompleted: summary.tasksCompleted,
+            disputesLost: summary.disputesLost,
+          }
+        : null,
+    };
+  }
+
+  private cancellationSignal(history: CreatorHistory): FraudSignal {
+    const maxPoints = 20;
+    if (history.tasksCreated < 3) {
+      return {
+        id: 'cancellationRate',
+        value: null,
+        points: 0,
+        maxPoints,
+        detail: `Too few tasks to judge cancellations (${history.tasksCreated} created)`,
+      };
+    }
+    const rate = history.tasksCancelled / history.tasksCreated;
+    return {
+      id: 'cancellationRate',
+      value: round(rate, 3),
+      points: round(rate * maxPoints),
+      maxPoints,
+      detail: `Cancelled ${history.tasksCancelled} of ${history.tasksCreated} tasks created`,
+    };
+  }
+
+  private disputeSignal(history: CreatorHistory): FraudSignal {
+    const maxPoints = 20;
+    return {
+      id: 'disputeLosses',
+      value: history.disputesLost,
+      points: Math.min(maxPoints, history.disputesLost * 7),
+      maxPoints,
+      detail: `Lost ${history.disputesLost} dispute${history.disputesLost === 1 ? '' : 's'}`,
+    };
+  }
+
+  private accountAgeSignal(history: CreatorHistory): FraudSignal {
+    const maxPoints = 10;
+    if (history.firstSeenAt === null) {
+      // A reputation NFT means activity from before the indexer's start block
+      return {
+        id: 'accountAge',
+        value: null,
+        points: history.reputation ? 3 : maxPoints,
+        maxPoints,
+        detail: history.reputation
+          ? 'No indexed activity, but the wallet holds a reputation NFT'
+          : 'No prior activity and no reputation NFT',
+      };
+    }
+    const days = (Date.now() / 1000 - history.firstSeenAt) / DAY;
+    const points = days < 1 ? 8 : days < 7 ? 5 : days < 30 ? 2 : 0;
+    return {
+      id: 'accountAge',
+      value: round(days),
+      points,
+      maxPoints,
+      detail: `First activity ${round(days)} days ago`,
+    };
+  }
+
+  /**
+   * How far the bounty sits from others in its category, on a log scale
+   */
+  private bountySignal(input: FraudScoringInput): FraudSignal {
+    const maxPoints = 10;
+    const none = (detail: string): FraudSignal => ({ id: 'bountyAnomaly', value: null, points: 0, maxPoints, detail });
+    if (!input.bounty) {
+      return none('No bounty given');
+    }
+
+    const label = input.category ? `${input.category} ` : '';
+    const peers = this.store
+      .getTasks()
+      .filter((t) => t.id !== input.taskId && (!input.category || t.category === input.category))
+      .map((t) => Math.log10(Number(ethers.formatEther(t.bounty)) + 1e-9));
+    if (peers.length < MIN_BOUNTY_PEERS) {
+      return none(`Too few ${label}tasks to compare the bounty with`);
+    }
+
+    const mean = peers.reduce((sum, v) => sum + v, 0) / peers.length;
+    const std = Math.max(0.1, Math.sqrt(peers.reduce((sum, v) => sum + (v - mean) ** 2, 0) / peers.length));
+    const bounty = Number(ethers.formatEther(input.bounty));
+    const z = (Math.log10(bounty + 1e-9) - mean) / std;
+
+    return {
+      id: 'bountyAnomaly',
+      value: round(z, 2),
+      points: round(Math.min(maxPoints, Math.max(0, Math.abs(z) - 2) * 5)),
+      maxPoints,
+      detail: `Bounty of ${round(bounty, 2)} TASKZ is ${round(Math.abs(z))} standard deviations ${
+        z >= 0 ? 'above' : 'below'
+      } typical ${label}bounties (typical ${round(10 ** mean, 2)} TASKZ)`,
+    };
+  }
+
+  /**
+   * @param skipped Why there is no assessment when `ai` is null
+   */
+  private aiSignal(ai: FraudScore['ai'], skipped: string): FraudSignal {
+    const maxPoints = 30;
+    if (!ai) {
+      return { id: 'aiAssessment', value: null, points: 0, maxPoints, detail: `${skipped}; not assessed` };
+    }
+    if (ai.provenance.source === 'fallback') {
+      return {
+        id: 'aiAssessment',
+        value: null,
+        points: 0,
+        maxPoints,
+        detail: 'AI check unavailable',
+      };
+    }
+    const points = ai.riskLevel === 'high' ? maxPoints : ai.riskLevel === 'medium' ? 15 : 0;
+    return {
+      id: 'aiAssessment',
+      value: ai.riskLevel,
+      points,
+      maxPoints,
+      detail:
+        ai.flags.length > 0 ? `AI rated risk ${ai.riskLevel}: ${ai.flags.join('; ')}` : `AI rated risk ${ai.riskLevel}`,
+    };
+  }
+
+  /**
+   * Injection phrasing found by the pre-screen, which runs before the model
+   * is called and so counts even when the model failed. This is the only
+   * place it is scored; the AI assessment is the model's rating alone.
+   */
+  private injectionSignal(ai: FraudScore['ai'], skipped: string): FraudSignal {
+    const maxPoints = 10;
+    if (!ai) {
+      return { id: 'promptInjection', value: null, points: 0, maxPoints, detail: `${skipped}; not screened` };
+    }
+    const { safety } = ai.provenance;
+    const rating = safety.echoedInstructions ? 'high' : rateInjection(safety.injection);
+    const patterns = [...new Set(safety.injection.map((match) => match.pattern))];
+    return {
+      id: 'promptInjection',
+      value: patterns.length > 0 ? patterns.join(', ') : null,
+      points: rating === 'high' ? maxPoints : rating === 'medium' ? 5 : 0,
+      maxPoints,
+      detail: [
+        patterns.length > 0 ? `Prompt injection phrasing: ${patterns.join(', ')}` : 'No prompt injection phrasing',
+        ...(safety.echoedInstructions ? ['model reply echoed its instructions'] : []),
+      ].join('; '),
+    };
+  }
+
+  private taskText(task: IndexedTask, metadata: TaskMetadata): string {
+    const list = (value: unknown) => (Array.isArray(value) ? value.join('\n') : '');
+    return [
+      metadata.title || `Task #${task.id}`,
+      metadata.description,
+      `Requirements:\n${list(metadata.requirements)}`,
+      `Deliverables:\n${list(metadata.deliverables)}`,
+      `Bounty: ${ethers.formatEther(task.bounty)} TASKZ`,
+    ].join('\n\n');
+  }
+}
+
+export default new FraudScoringService();
@@ -1,63 +1,286 @@
-import { create, IPFSHTTPClient } from 'ipfs-http-client';
+import crypto from 'crypto';
+import { CID } from 'multiformats/cid';
+import { AppError } from '../middleware/errorHandler';
+import { normalizeCID, parseCID, RAW_CODEC, SHA2_256 } from '../shared/cid';
+import { DOCUMENT_FORMATS, DocumentKind, DocumentOf, parseDocument } from '../shared/documents';
+import { EncryptedDocument, EncryptedDocumentSchema, isEncryptedDocument } from '../shared/encryption';
+import { collectBytes } from '../utils/bytes';
+import { parseRequest } from '../utils/validation';
+import { ContentCache } from './contentCache';
+import { IPFSGatewayClient } from './ipfsGateways';
+import {
+  ContentStore,
+  createPinningProviders,
+  isContentStore,
+  PinningProvider,
+  PinRecord,
+  PinRegistry,
+} from './pinning';
+
+export const getReadLimits = () => ({
+  maxBytes: parseInt(process.env.IPFS_MAX_READ_BYTES || String(10 * 1024 * 1024)),
+  timeoutMs: parseInt(process.env.IPFS_READ_TIMEOUT_MS || '10000'),
+});
+
+/**
+ * Gateways are untrusted, so they are only asked for content that can be
+ * checked against its CID: a raw block hashes to it. Uploads are added as
+ * raw blocks where they fit in one; UnixFS files (`dag-pb`, including every
+ * CIDv0 from older uploads) would need every block of the DAG to verify, so
+ * those are only read from the content store.
+ */
+const isVerifiable = (cid: CID): boolean => cid.code === RAW_CODEC && cid.multihash.code === SHA2_256;
+
+const verifyContent = (cid: CID, content: Buffer): Buffer => {
+  const digest = crypto.createHash('sha256').update(content).digest();
+  if (!digest.equals(cid.multihash.digest)) {
+    throw new Error(`Content does not match ${cid}`);
+  }
+  return content;
+};
 
 export class IPFSService {
-  private client: IPFSHTTPClient;
+  private providers: PinningProvider[] | null;
+  private registry: PinRegistry;
+  private gateways: IPFSGatewayClient;
+  private cache: ContentCache;
 
-  constructor() {
-    const projectId = process.env.IPFS_PROJECT_ID;
-    const projectSecret = process.env.IPFS_PROJECT_SECRET;
+  /**
+   * @param providers Pinning backends; defaults to those in IPFS_PINNING_PROVIDERS
+   * @param registry Record of which CIDs are pinned where
+   * @param gateways HTTP gateways raced against the content store on reads
+   * @param cache Content already read, by CID
+   */
+  constructor(
+    providers?: PinningProvider[],
+    registry = new PinRegistry(),
+    gateways = new IPFSGatewayClient(),
+    cache = new ContentCache()
+  ) {
+    this.providers = providers ?? null;
+    this.registry = registry;
+    this.gateways = gateways;
+    this.cache = cache;
+  }
 
-    const auth = projectId && projectSecret
-      ? 'Basic ' + Buffer.from(projectId + ':' + projectSecret).toString('base64')
-      : undefined;
+  private getProviders(): PinningProvider[] {
+    if (!this.providers) {
+      this.providers = createPinningProviders();
+    }
+    return this.providers;
+  }
 
-    this.client = create({
-      url: process.env.IPFS_API_URL || 'https://ipfs.infura.io:5001',
-      headers: auth ? { authorization: auth } : {},
-    });
+  /**
+   * Uploads and reads go through the first provider that stores content
+   */
+  private getStore(): ContentStore {
+    const store = this.getProviders().find(isContentStore);
+    if (!store) {
+      throw new Error('No configured pinning provider can store content');
+    }
+    return store;
   }
 
   /**
-   * Upload JSON data to IPFS
+   * Validate a document against the current schema for its kind, then
+   * upload it to IPFS and pin it on every provider. Encrypted documents are
+   * checked as envelopes; their content is never visible here.
    */
-  async uploadJSON(data: any): Promise<string> {
+  async uploadJSON<K extends DocumentKind>(kind: K, data: unknown): Promise<string> {
+    const schema = isEncryptedDocument(data)
+      ? EncryptedDocumentSchema.refine((envelope) => envelope.kind === kind, {
+          message: `Expected an encrypted ${kind} document`,
+          path: ['kind'],
+        })
+      : DOCUMENT_FORMATS[kind].schema;
+    const document = parseRequest(schema, data, `Invalid ${kind} document`);
+
+    let cid: string;
     try {
-      const json = JSON.stringify(data);
-      const result = await this.client.add(json);
-      return result.cid.toString();
+      const json = JSON.stringify(document);
+      cid = await this.getStore().add(Buffer.from(json));
     } catch (error) {
       console.error('Error uploading to IPFS:', error);
       throw new Error('Failed to upload to IPFS');
     }
+
+    await this.pin(cid);
+    return cid;
+  }
+
+  /**
+   * Stream content to IPFS and pin it on every provider. Errors thrown by
+   * the source (such as a size limit) abort the upload and are rethrown.
+   */
+  async uploadStream(source: AsyncIterable<Uint8Array>): Promise<string> {
+    let cid: string;
+    try {
+      cid = await this.getStore().add(source);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error('Error uploading to IPFS:', error);
+      throw new Error('Failed to upload to IPFS');
+    }
+
+    await this.pin(cid);
+    return cid;
+  }
+
+  /**
+   * Content as it is read from IPFS, without buffering
+   */
+  stream(cid: string): AsyncIterable<Uint8Array> {
+    return this.getStore().cat(cid);
   }
 
   /**
    * Retrieve JSON data from IPFS
    */
   async getJSON(cid: string): Promise<any> {
+    const data = await this.getText(cid);
     try {
-      const chunks = [];
-      for await (const chunk of this.client.cat(cid)) {
-        chunks.push(chunk);
-      }
-      const data = Buffer.concat(chunks).toString();
       return JSON.parse(data);
     } catch (error) {
-      console.error('Error retrieving from IPFS:', error);
+      console.error('Error parsing IPFS JSON:', error);
       throw new Error('Failed to retrieve from IPFS');
     }
   }
 
   /**
-   * Pin content to ensure persistence
+   * Retrieve a document and migrate it to the current schema for its kind.
+   * Encrypted documents come back as their envelope. Throws when it is not a
+   * valid document of any known version.
    */
-  async pin(cid: string): Promise<void> {
+  async getDocument<K extends DocumentKind>(kind: K, cid: string): Promise<DocumentOf<K> | EncryptedDocument> {
+    const text = await this.getText(cid);
+    let raw: unknown = text;
     try {
-      await this.client.pin.add(cid);
+      raw = JSON.parse(text);
+    } catch {
+      // Older submissions and evidence can be plain text; the migrations handle that
+    }
+
+    const result = isEncryptedDocument(raw) ? EncryptedDocumentSchema.safeParse(raw) : parseDocument(kind, raw);
+    if (!result.success) {
+      throw new Error(`Invalid ${kind} document ${cid}: ${result.error.issues.map((i) => i.message).join('; ')}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Retrieve a document from IPFS as UTF-8 text. Reads are capped at
+   * IPFS_MAX_READ_BYTES and cached by CID.
+   */
+  async getText(cid: string): Promise<string> {
+    const parsed = parseCID(cid);
+    if (!parsed) {
+      throw new AppError('Invalid CID', 400);
+    }
+
+    const key = normalizeCID(parsed);
+    let content = this.cache.get(key);
+    if (!content) {
+      try {
+        content = await this.read(parsed);
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        console.error('Error retrieving from IPFS:', error);
+        throw new Error('Failed to retrieve from IPFS');
+      }
+      this.cache.set(key, content);
+    }
+    return content.toString();
+  }
+
+  /**
+   * Read from the content store, racing every gateway when the CID can be
+   * verified. The first complete, verified response wins and the others are
+   * cancelled; all of them give up after IPFS_READ_TIMEOUT_MS.
+   */
+  private async read(cid: CID): Promise<Buffer> {
+    const { maxBytes, timeoutMs } = getReadLimits();
+    const controller = new AbortController();
+    const signal = AbortSignal.any([controller.signal, AbortSignal.timeout(timeoutMs)]);
+
+    const verifiable = isVerifiable(cid);
+    const sources = [
+      Promise.resolve().then(() => collectBytes(this.stream(cid.toString()), maxBytes, signal)),
+      ...(verifiable ? this.gateways.getGateways() : []).map((gateway) =>
+        this.gateways.fetch(gateway, cid, maxBytes, signal)
+      ),
+    ];
+
+    try {
+      return await Promise.any(
+        verifiable ? sources.map((source) => source.then((content) => verifyContent(cid, content))) : sources
+      );
     } catch (error) {
-      console.error('Error pinning to IPFS:', error);
+      // An object over the size limit is too large everywhere
+      const tooLarge = (error as AggregateError).errors?.find((e) => e instanceof AppError);
+      throw tooLarge ?? error;
+    } finally {
+      controller.abort();
+    }
+  }
+
+  /**
+   * Pin content on every provider and record the outcome of each. Replicas
+   * are best-effort; this only fails when no provider accepted the pin.
+   */
+  async pin(cid: string, name?: string): Promise<PinRecord[]> {
+    const records = await Promise.all(
+      this.getProviders().map(async (provider) => {
+        let record: PinRecord;
+        try {
+          const result = await provider.pin(cid, name);
+          record = { provider: provider.name, ...result, updatedAt: Math.floor(Date.now() / 1000) };
+        } catch (error: any) {
+          console.error(`Error pinning ${cid} to ${provider.name}:`, error);
+          record = {
+            provider: provider.name,
+            status: 'failed',
+            updatedAt: Math.floor(Date.now() / 1000),
+            error: error?.message ?? String(error),
+          };
+        }
+        await this.registry.set(cid, record);
+        return record;
+      })
+    );
+
+    if (records.every((record) => record.status === 'failed')) {
       throw new Error('Failed to pin to IPFS');
     }
+    return records;
+  }
+
+  /**
+   * Where a CID is pinned. Pins still queued or in progress are re-checked
+   * with their provider.
+   */
+  async getPins(cid: string): Promise<PinRecord[]> {
+    const records = await this.registry.get(cid);
+    return Promise.all(
+      records.map(async (record) => {
+        const provider = this.getProviders().find((p) => p.name === record.provider);
+        if (!provider || (record.status !== 'queued' && record.status !== 'pinning')) {
+          return record;
+        }
+        try {
+          const result = await provider.status(cid);
+          const updated: PinRecord = { provider: provider.name, ...result, updatedAt: Math.floor(Date.now() / 1000) };
+          await this.registry.set(cid, updated);
+          return updated;
+        } catch (error) {
+          console.error(`Error checking pin ${cid} on ${provider.name}:`, error);
+          return record;
+        }
+      })
+    );
   }
 
   /**
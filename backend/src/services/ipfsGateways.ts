@@ -0,0 +1,48 @@
+import { CID } from 'multiformats/cid';
+import { collectBytes, readLimitError } from '../utils/bytes';
+
+const DEFAULT_GATEWAYS = ['https://ipfs.io/ipfs/', 'https://dweb.link/ipfs/', 'https://w3s.link/ipfs/'];
+
+/**
+ * Public gateways reads are raced across: IPFS_GATEWAYS (comma-separated),
+ * else IPFS_GATEWAY followed by a few well-known public gateways
+ */
+export const getGateways = (): string[] => {
+  const configured = process.env.IPFS_GATEWAYS
+    ? process.env.IPFS_GATEWAYS.split(',')
+    : [process.env.IPFS_GATEWAY || DEFAULT_GATEWAYS[0], ...DEFAULT_GATEWAYS];
+  const gateways = configured.map((url) => url.trim()).filter(Boolean).map((url) => (url.endsWith('/') ? url : `${url}/`));
+  return [...new Set(gateways)];
+};
+
+/**
+ * Reads content by CID over HTTP gateways. Gateways are untrusted: callers
+ * only ask for CIDs they can verify and check what comes back.
+ */
+export class IPFSGatewayClient {
+  private gateways: string[] | null;
+
+  constructor(gateways?: string[]) {
+    this.gateways = gateways ?? null;
+  }
+
+  getGateways(): string[] {
+    if (!this.gateways) {
+      this.gateways = getGateways();
+    }
+    return this.gateways;
+  }
+
+  async fetch(gateway: string, cid: CID, maxBytes: number, signal: AbortSignal): Promise<Buffer> {
+    const response = await fetch(`${gateway}${cid}`, { signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`${gateway} returned ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      // Don't download what collectBytes would reject anyway
+      await response.body.cancel();
+      throw readLimitError(maxBytes);
+    }
+    return collectBytes(response.body, maxBytes, signal);
+  }
+}
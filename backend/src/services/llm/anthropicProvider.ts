@@ -0,0 +1,50 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { Message, MessageCreateParamsBase } from '@anthropic-ai/sdk/resources/messages';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './types';
+
+const toParams = (request: CompletionRequest): MessageCreateParamsBase => ({
+  model: request.model,
+  max_tokens: request.maxTokens,
+  temperature: request.temperature,
+  ...(request.system ? { system: request.system } : {}),
+  messages: request.messages,
+});
+
+const toResponse = (message: Message): CompletionResponse => ({
+  text: message.content
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text)
+    .join(''),
+  model: message.model,
+  usage: {
+    inputTokens: message.usage.input_tokens,
+    outputTokens: message.usage.output_tokens,
+  },
+  stopReason: message.stop_reason,
+});
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey = process.env.ANTHROPIC_API_KEY) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const message = await this.client.messages.create(
+      { ...toParams(request), stream: false },
+      { signal: request.signal }
+    );
+    return toResponse(message);
+  }
+
+  async stream(request: CompletionRequest, onText: (delta: string) => void): Promise<CompletionResponse> {
+    const stream = this.client.messages.stream(toParams(request), { signal: request.signal });
+    stream.on('text', (delta) => onText(delta));
+    return toResponse(await stream.finalMessage());
+  }
+}
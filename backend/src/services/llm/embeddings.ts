@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; vectors from different models don't mix */
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+};
+
+/**
+ * Cosine similarity; both vectors are expected to be unit length
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+};
+
+/**
+ * Weighted mean of unit vectors, renormalized
+ */
+export const averageVectors = (vectors: number[][], weights?: number[]): number[] => {
+  if (vectors.length === 0) return [];
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  vectors.forEach((vector, index) => {
+    const weight = weights?.[index] ?? 1;
+    vector.forEach((value, i) => {
+      sum[i] += value * weight;
+    });
+  });
+  return normalizeVector(sum);
+};
+
+/**
+ * Offline stand-in: hashes words and word bigrams into a fixed number of
+ * signed buckets. Deterministic and dependency-free; good enough to rank by
+ * shared vocabulary in tests and local development.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions = 512) {
+    this.dimensions = dimensions;
+    this.model = `local-hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    for (const feature of features) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimensions;
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Voyage AI embeddings API (Anthropic's recommended embedding provider)
+ */
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(apiKey = process.env.VOYAGE_API_KEY || '', model = process.env.EMBEDDING_MODEL || 'voyage-2') {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch('https://api.voyageai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ input: texts, model: this.model }),
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding request failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { data: Array<{ embedding: number[]; index: number }> };
+    return body.data.sort((a, b) => a.index - b.index).map((entry) => normalizeVector(entry.embedding));
+  }
+}
+
+/**
+ * Provider selected by EMBEDDING_PROVIDER (`voyage` or `local`). Without an
+ * explicit choice, the local stand-in is used when no Voyage key is set.
+ */
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  const choice = process.env.EMBEDDING_PROVIDER || (process.env.VOYAGE_API_KEY ? 'voyage' : 'local');
+  return choice === 'voyage' ? new VoyageEmbeddingProvider() : new HashingEmbeddingProvider();
+};
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import { AIOperation, CompletionRequest, CompletionResponse, LLMProvider } from './types';
+
+type FixtureHandler = (request: CompletionRequest) => string;
+
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Development: ['develop', 'code', 'api', 'backend', 'frontend', 'react', 'smart contract', 'bug', 'deploy', 'typescript'],
+  Design: ['design', 'logo', 'figma', 'mockup', 'ui', 'ux', 'illustration', 'banner'],
+  Writing: ['write', 'article', 'blog', 'documentation', 'copy', 'translate', 'edit'],
+  Marketing: ['marketing', 'campaign', 'social media', 'seo', 'twitter', 'promotion', 'ads'],
+  Research: ['research', 'analysis', 'survey', 'report', 'investigate', 'compare'],
+  DataEntry: ['data entry', 'spreadsheet', 'csv', 'transcribe', 'label', 'scrape'],
+  Testing: ['test', 'qa', 'audit', 'review', 'verify'],
+};
+
+const FRAUD_PATTERNS: Array<[RegExp, string]> = [
+  [/private key|seed phrase|mnemonic|recovery phrase/i, 'Requests wallet secrets'],
+  [/password|login credentials|2fa code/i, 'Requests account credentials'],
+  [/send (eth|matic|usdt|tokens?|funds)|deposit first|upfront (fee|payment)/i, 'Requests an upfront payment'],
+  [/guaranteed|risk[- ]free|double your/i, 'Too-good-to-be-true promises'],
+  [/passport|social security|ssn|bank account number|home address/i, 'Requests personal information'],
+  [/gift card|wire transfer|western union/i, 'Untraceable payment method'],
+];
+
+const words = (text: string): string[] => text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+const estimateTokens = (text: string): number => Math.max(1, Math.ceil(text.length / 4));
+
+// Size of the pieces stream() emits
+const STREAM_CHUNK_CHARS = 16;
+
+const categorize = (text: string): string => {
+  const lower = text.toLowerCase();
+  let best = 'Other';
+  let bestScore = 0;
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    const score = keywords.filter((keyword) => lower.includes(keyword)).length;
+    if (score > bestScore) {
+      best = category;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? '');
+const list = z.array(z.string()).default([]);
+
+/**
+ * The inputs each operation's fixture reads, parsed from the request's raw
+ * input; anything missing reads as empty
+ */
+const FIXTURE_INPUTS = {
+  categorizeTask: z.object({ taskDescription: optionalText }),
+  estimateTaskComplexity: z.object({ taskDescription: optionalText, requirements: optionalText }),
+  detectFraud: z.object({ taskDescription: optionalText }),
+  recommendTasks: z.object({
+    userProfile: z.unknown(),
+    candidates: z.array(z.object({ id: z.number() }).passthrough()).default([]),
+  }),
+  generateTaskTemplate: z.object({ briefDescription: optionalText }),
+  summarizeDispute: z.object({ taskSpec: optionalText, evidence: optionalText, submission: optionalText }),
+  reviewSubmission: z.object({ requirements: list, deliverables: list, submission: optionalText }),
+} satisfies Record<AIOperation, z.ZodTypeAny>;
+
+type FixtureInput<O extends AIOperation> = z.infer<(typeof FIXTURE_INPUTS)[O]>;
+
+const DEFAULT_HANDLERS: { [O in AIOperation]: (input: FixtureInput<O>) => string } = {
+  categorizeTask: ({ taskDescription }) => categorize(taskDescription),
+
+  estimateTaskComplexity: ({ taskDescription, requirements }) => {
+    const count = words(`${taskDescription} ${requirements}`).length;
+    const [complexity, estimatedHours] =
+      count < 40 ? ['low', 2] : count < 120 ? ['medium', 8] : count < 300 ? ['high', 24] : ['expert', 60];
+    return JSON.stringify({
+      complexity,
+      estimatedHours,
+      // $40/hr at $0.10 per TASKZ
+      suggestedBounty: estimatedHours * 400,
+      reasoning: `Fixture estimate based on a ${count}-word specification`,
+    });
+  },
+
+  detectFraud: ({ taskDescription }) => {
+    const flags = FRAUD_PATTERNS.filter(([pattern]) => pattern.test(taskDescription)).map(([, flag]) => flag);
+    const riskLevel = flags.length >= 2 ? 'high' : flags.length === 1 ? 'medium' : 'low';
+    return JSON.stringify({ isSuspicious: flags.length > 0, riskLevel, flags });
+  },
+
+  recommendTasks: ({ userProfile, candidates }) => {
+    const skills = new Set(words(JSON.stringify(userProfile ?? {})));
+    const ranked = candidates
+      .map((candidate, index) => ({
+        id: candidate.id,
+        index,
+        score: words(JSON.stringify(candidate)).filter((word) => skills.has(word)).length,
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map((entry) => entry.id);
+    return JSON.stringify(ranked);
+  },
+
+  generateTaskTemplate: ({ briefDescription }) => {
+    const brief = briefDescription.trim();
+    const firstSentence = brief.split(/[.!?\n]/)[0].trim() || 'New task';
+    const title = firstSentence.charAt(0).toUpperCase() + firstSentence.slice(1, 80);
+    const category = categorize(brief);
+    return JSON.stringify({
+      title,
+      description: brief,
+      requirements: [`Relevant ${category.toLowerCase()} experience`, 'Follow the brief and communicate progress'],
+      deliverables: ['Completed work matching the brief', 'Short summary of what was delivered'],
+    });
+  },
+
+  summarizeDispute: ({ taskSpec, evidence, submission }) => {
+    let requirements: string[] = [];
+    try {
+      requirements = JSON.parse(taskSpec).requirements ?? [];
+    } catch {
+      // Plain-text spec: no structured requirements
+    }
+    const delivered = new Set(words(submission));
+    const sentences = (text: string) =>
+      text
+        .split(/[.!?\n]/)
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0)
+        .slice(0, 3);
+
+    return JSON.stringify({
+      summary: `Fixture brief for a dispute over a task with ${requirements.length} listed requirements`,
+      creatorClaims: sentences(evidence),
+      workerClaims: submission ? [`Submitted: ${sentences(submission)[0] ?? 'deliverable'}`] : [],
+      requirements: requirements.map((requirement) => {
+        const terms = words(requirement).filter((w) => w.length > 3);
+        const covered = terms.filter((w) => delivered.has(w)).length;
+        return {
+          requirement,
+          status: !submission ? 'missed' : covered === terms.length ? 'met' : covered > 0 ? 'unclear' : 'missed',
+          notes: `${covered} of ${terms.length} key terms appear in the submission`,
+        };
+      }),
+      openQuestions: ['Did both parties agree on any changes to the scope?'],
+    });
+  },
+
+  reviewSubmission: ({ requirements, deliverables, submission }) => {
+    const delivered = new Set(words(submission));
+    const review = (kind: string, prefix: string) => (item: string, index: number) => {
+      const terms = words(item).filter((w) => w.length > 3);
+      const covered = terms.filter((w) => delivered.has(w)).length;
+      const ratio = terms.length ? covered / terms.length : 0;
+      return {
+        id: `${prefix}${index + 1}`,
+        kind,
+        item,
+        status: ratio === 1 ? 'met' : ratio > 0 ? 'partial' : 'missing',
+        reason: `${covered} of ${terms.length} key terms appear in the submission`,
+        confidence: 0.5,
+      };
+    };
+    const checklist = [
+      ...requirements.map(review('requirement', 'R')),
+      ...deliverables.map(review('deliverable', 'D')),
+    ];
+    return JSON.stringify({
+      checklist,
+      summary: `Fixture review: ${checklist.filter((c) => c.status === 'met').length} of ${checklist.length} items met`,
+    });
+  },
+};
+
+const defaultReply = <O extends AIOperation>(operation: O, input: unknown): string =>
+  DEFAULT_HANDLERS[operation](FIXTURE_INPUTS[operation].parse(input ?? {}));
+
+/**
+ * Deterministic offline provider for tests and local development. Replies are
+ * derived from the operation's inputs with simple heuristics; tests can pin
+ * exact replies with setResponse().
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  private overrides = new Map<AIOperation, FixtureHandler>();
+
+  setResponse(operation: AIOperation, response: string | FixtureHandler): void {
+    this.overrides.set(operation, typeof response === 'string' ? () => response : response);
+  }
+
+  reset(): void {
+    this.overrides.clear();
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    request.signal?.throwIfAborted();
+    const handler = this.overrides.get(request.operation);
+    const text = handler ? handler(request) : defaultReply(request.operation, request.input);
+    const prompt = [request.system ?? '', ...request.messages.map((m) => m.content)].join('\n');
+
+    return {
+      text,
+      model: `fixture:${request.model}`,
+      usage: {
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(text),
+      },
+      stopReason: 'end_turn',
+    };
+  }
+
+  /**
+   * Emits the fixture reply in small chunks, yielding to the event loop
+   * between them so cancellation can be exercised
+   */
+  async stream(request: CompletionRequest, onText: (delta: string) => void): Promise<CompletionResponse> {
+    const response = await this.complete(request);
+    for (let i = 0; i < response.text.length; i += STREAM_CHUNK_CHARS) {
+      await new Promise((resolve) => setImmediate(resolve));
+      request.signal?.throwIfAborted();
+      onText(response.text.slice(i, i + STREAM_CHUNK_CHARS));
+    }
+    return response;
+  }
+}
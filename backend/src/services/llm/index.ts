@@ -0,0 +1,56 @@
+import { AnthropicProvider } from './anthropicProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { AICallOptions, AIOperation, LLMProvider } from './types';
+
+export * from './types';
+export { AnthropicProvider } from './anthropicProvider';
+export { FixtureProvider } from './fixtureProvider';
+export * from './structuredOutput';
+export * from './promptSafety';
+export * from './embeddings';
+
+const BASE_OPTIONS: Record<AIOperation, Omit<AICallOptions, 'model'>> = {
+  categorizeTask: { maxTokens: 100, temperature: 0 },
+  estimateTaskComplexity: { maxTokens: 500, temperature: 0.2 },
+  detectFraud: { maxTokens: 300, temperature: 0 },
+  recommendTasks: { maxTokens: 200, temperature: 0.2 },
+  generateTaskTemplate: { maxTokens: 800, temperature: 0.7 },
+  summarizeDispute: { maxTokens: 1500, temperature: 0 },
+  reviewSubmission: { maxTokens: 1500, temperature: 0 },
+};
+
+/**
+ * Default model and sampling settings for an operation. The model can be set
+ * per operation with AI_MODEL_<OPERATION> (e.g. AI_MODEL_DETECTFRAUD),
+ * falling back to ANTHROPIC_MODEL.
+ */
+export const getDefaultCallOptions = (operation: AIOperation): AICallOptions => ({
+  model:
+    process.env[`AI_MODEL_${operation.toUpperCase()}`] ||
+    process.env.ANTHROPIC_MODEL ||
+    'claude-3-5-sonnet-20241022',
+  ...BASE_OPTIONS[operation],
+});
+
+/**
+ * Provider selected by AI_PROVIDER: `anthropic` (the default) or `fixture`.
+ * Fixture replies are only used when asked for by name, so a missing key
+ * never turns into canned answers; in production it is a startup error.
+ */
+export const createProvider = (): LLMProvider => {
+  const choice = process.env.AI_PROVIDER || 'anthropic';
+  if (choice === 'fixture') {
+    console.warn('AI provider: using offline fixture responses');
+    return new FixtureProvider();
+  }
+  if (choice !== 'anthropic') {
+    throw new Error(`Unknown AI_PROVIDER "${choice}"; expected anthropic or fixture`);
+  }
+  if (!process.env.ANTHROPIC_API_KEY) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ANTHROPIC_API_KEY is not set; set it, or AI_PROVIDER=fixture for offline replies');
+    }
+    console.warn('AI provider: ANTHROPIC_API_KEY is not set, so every AI call will return its fallback');
+  }
+  return new AnthropicProvider();
+};
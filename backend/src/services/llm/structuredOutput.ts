@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import { AICallOptions, AIOperation, CompletionResponse, LLMMessage, LLMProvider } from './types';
+
+export type OutputFormat = 'json' | 'text';
+
+export interface StructuredRequest<S extends z.ZodTypeAny> {
+  operation: AIOperation;
+  prompt: string;
+  input: unknown;
+  schema: S;
+  options: AICallOptions;
+  format?: OutputFormat;
+  system?: string;
+  /** Repair round trips after the first attempt */
+  maxRepairs?: number;
+  signal?: AbortSignal;
+  /**
+   * Stream the reply, receiving the text generated so far in the current
+   * attempt (attempts start from 1)
+   */
+  onText?: (snapshot: string, attempt: number) => void;
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  attempts: number;
+  responses: CompletionResponse[];
+}
+
+export class StructuredOutputError extends Error {
+  attempts: number;
+  responses: CompletionResponse[];
+
+  constructor(message: string, attempts: number, responses: CompletionResponse[]) {
+    super(message);
+    this.attempts = attempts;
+    this.responses = responses;
+  }
+}
+
+/**
+ * Return the first balanced JSON object or array in `text`, skipping over
+ * string contents so braces inside strings don't confuse the scan
+ */
+const findBalancedJSON = (text: string): string | null => {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+/**
+ * Pull a JSON value out of a model reply that may wrap it in a markdown
+ * fence or surround it with prose
+ */
+export function extractJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/i);
+  const candidates = [fenced?.[1], text, findBalancedJSON(fenced?.[1] ?? text), findBalancedJSON(text)];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate.trim());
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('No JSON value found in reply');
+}
+
+/**
+ * Best-effort parse of a JSON reply that is still being generated. Complete
+ * strings, arrays and objects are returned as they are; an unterminated string
+ * is cut at the current position, and unfinished numbers or literals are left
+ * out. Returns undefined until a value has started.
+ */
+export function parsePartialJSON(text: string): unknown {
+  const start = text.search(/[[{]/);
+  if (start === -1) return undefined;
+
+  let pos = start;
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    // Opening quote already consumed
+    let raw = '';
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return JSON.parse(`"${raw}"`);
+      }
+      if (char === '\\') {
+        // Keep only complete escape sequences
+        const escape = text[pos + 1] === 'u' ? text.slice(pos, pos + 6) : text.slice(pos, pos + 2);
+        if (escape.length < (text[pos + 1] === 'u' ? 6 : 2)) break;
+        raw += escape;
+        pos += escape.length;
+        continue;
+      }
+      raw += char;
+      pos++;
+    }
+    pos = text.length;
+    return JSON.parse(`"${raw}"`);
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = text[pos];
+    if (char === undefined) return undefined;
+
+    if (char === '"') {
+      pos++;
+      return parseString();
+    }
+
+    if (char === '{' || char === '[') {
+      const isArray = char === '[';
+      const items: unknown[] = [];
+      const fields: Record<string, unknown> = {};
+      const result = isArray ? items : fields;
+      pos++;
+      for (;;) {
+        skipWhitespace();
+        if (pos >= text.length) return result;
+        if (text[pos] === (isArray ? ']' : '}')) {
+          pos++;
+          return result;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+
+        if (isArray) {
+          const item = parseValue();
+          if (item !== undefined) items.push(item);
+          continue;
+        }
+
+        if (text[pos] !== '"') return result;
+        pos++;
+        const key = parseString();
+        // The key itself was cut off
+        if (pos >= text.length && text[pos - 1] !== '"') return result;
+        skipWhitespace();
+        if (text[pos] !== ':') return result;
+        pos++;
+        const value = parseValue();
+        if (value !== undefined) fields[key] = value;
+      }
+    }
+
+    // Numbers and literals only count once something follows them
+    const match = text.slice(pos).match(/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)(?=\s*[,}\]])/);
+    if (!match) {
+      pos = text.length;
+      return undefined;
+    }
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  return parseValue();
+}
+
+/**
+ * Normalise a plain-text reply: first line, without quotes or trailing punctuation
+ */
+export function extractText(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? '';
+  return firstLine.replace(/^["'`*\s]+|["'`*.\s]+$/g, '');
+}
+
+const describeError = (error: unknown): string => {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const repairPrompt = (error: string, format: OutputFormat): string =>
+  `Your previous reply could not be used: ${error}
+
+Reply again with ${format === 'json' ? 'only the corrected JSON, with no markdown fences or commentary' : 'only the answer, with no commentary'}.`;
+
+/**
+ * Ask the provider for output matching `schema`. When the reply cannot be
+ * parsed or validated, the error is quoted back in a repair prompt and the
+ * model gets another try.
+ */
+export async function generateStructured<S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  request: StructuredRequest<S>
+): Promise<StructuredResult<z.infer<S>>> {
+  const format = request.format ?? 'json';
+  const maxRepairs = request.maxRepairs ?? parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '1');
+  const messages: LLMMessage[] = [{ role: 'user', content: request.prompt }];
+  const responses: CompletionResponse[] = [];
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    request.signal?.throwIfAborted();
+    const completion = {
+      ...request.options,
+      operation: request.operation,
+      system: request.system,
+      input: request.input,
+      messages: [...messages],
+      signal: request.signal,
+    };
+
+    let snapshot = '';
+    const response = request.onText
+      ? await provider.stream(completion, (delta) => {
+          snapshot += delta;
+          request.onText!(snapshot, attempt);
+        })
+      : await provider.complete(completion);
+    responses.push(response);
+
+    try {
+      const raw = format === 'json' ? extractJSON(response.text) : extractText(response.text);
+      const data = request.schema.parse(raw);
+      return { data, attempts: attempt, responses };
+    } catch (error) {
+      lastError = describeError(error);
+      messages.push(
+        { role: 'assistant', content: response.text },
+        { role: 'user', content: repairPrompt(lastError, format) }
+      );
+    }
+  }
+
+  throw new StructuredOutputError(
+    `Invalid ${request.operation} output after ${responses.length} attempts: ${lastError}`,
+    responses.length,
+    responses
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Provider-neutral types for the LLM layer behind ClaudeAIService
+ */
+
+export type AIOperation =
+  | 'categorizeTask'
+  | 'estimateTaskComplexity'
+  | 'detectFraud'
+  | 'recommendTasks'
+  | 'generateTaskTemplate'
+  | 'summarizeDispute'
+  | 'reviewSubmission';
+
+export interface AICallOptions {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest extends AICallOptions {
+  operation: AIOperation;
+  system?: string;
+  messages: LLMMessage[];
+  /**
+   * The operation's raw inputs. Real providers ignore this; the fixture
+   * provider uses it to build deterministic replies without parsing prompts.
+   */
+  input?: unknown;
+  /** Aborts the provider call, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export interface CompletionResponse {
+  text: string;
+  model: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+  stopReason: string | null;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  /**
+   * Like complete(), but reports text deltas as they are generated
+   */
+  stream(request: CompletionRequest, onText: (delta: string) => void): Promise<CompletionResponse>;
+}
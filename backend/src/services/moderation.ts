@@ -0,0 +1,219 @@
+import path from 'path';
+import { AppError } from '../middleware/errorHandler';
+import { getDataDir, readJSONFile, writeJSONFile } from '../utils/jsonFile';
+import type { FraudScore } from './fraudScoring';
+import taskStore from './taskStore';
+
+export const MODERATION_STATUSES = ['open', 'dismissed', 'hidden', 'cancelRecommended'] as const;
+export type ModerationStatus = (typeof MODERATION_STATUSES)[number];
+
+export const MODERATION_ACTIONS = ['dismiss', 'hide', 'recommendCancel'] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+const ACTION_STATUS: Record<ModerationAction, ModerationStatus> = {
+  dismiss: 'dismissed',
+  hide: 'hidden',
+  recommendCancel: 'cancelRecommended',
+};
+
+export type ModerationSubject = { type: 'task'; taskId: number } | { type: 'user'; address: string };
+
+/**
+ * One reason an item is in the queue. Repeat flags for the same subject are
+ * appended to its open item rather than queued again.
+ */
+export interface ModerationFlag {
+  source: 'fraud' | 'report';
+  reasons: string[];
+  createdAt: number;
+  /** Wallet that filed a report */
+  reporter?: string;
+  fraud?: FraudScore;
+}
+
+export interface ModerationItem {
+  id: number;
+  subject: ModerationSubject;
+  status: ModerationStatus;
+  flags: ModerationFlag[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Append-only record of everything that changed the queue
+ */
+export interface AuditEntry {
+  id: number;
+  itemId: number;
+  action: 'flag' | 'report' | ModerationAction;
+  /** Reviewer or reporter wallet; `system` for automatic flags */
+  actor: string;
+  fromStatus: ModerationStatus | null;
+  toStatus: ModerationStatus;
+  note: string | null;
+  at: number;
+}
+
+interface ModerationSnapshot {
+  nextId: number;
+  items: ModerationItem[];
+  audit: AuditEntry[];
+}
+
+const sameSubject = (a: ModerationSubject, b: ModerationSubject) =>
+  a.type === 'task' ? b.type === 'task' && a.taskId === b.taskId : b.type === 'user' && a.address === b.address;
+
+const normalizeSubject = (subject: ModerationSubject): ModerationSubject =>
+  subject.type === 'user' ? { type: 'user', address: subject.address.toLowerCase() } : subject;
+
+/**
+ * Queue of flagged tasks and users with reviewer actions and an audit log,
+ * persisted to disk. Hiding keeps a task (or every task of a hidden user)
+ * out of listings; cancelling stays an on-chain transaction an admin signs.
+ */
+export class ModerationService {
+  private filePath: string;
+  private items: ModerationItem[] = [];
+  private audit: AuditEntry[] = [];
+  private nextId = 1;
+  private loaded: Promise<void> | null = null;
+  // Writes are chained so concurrent flags never race on the temp file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath = path.join(getDataDir(), 'moderation.json')) {
+    this.filePath = filePath;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJSONFile<ModerationSnapshot>(this.filePath).then((snapshot) => {
+        if (snapshot) {
+          this.items = snapshot.items;
+          this.audit = snapshot.audit ?? [];
+          this.nextId = snapshot.nextId;
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Queue a flagged subject, or add the flag to its open item
+   */
+  async flag(subject: ModerationSubject, flag: Omit<ModerationFlag, 'createdAt'>): Promise<ModerationItem> {
+    await this.load();
+    const now = Math.floor(Date.now() / 1000);
+    const target = normalizeSubject(subject);
+    const entry: ModerationFlag = { ...flag, createdAt: now };
+
+    let item = this.items.find((i) => i.status === 'open' && sameSubject(i.subject, target));
+    if (item) {
+      item.flags.push(entry);
+      item.updatedAt = now;
+    } else {
+      item = { id: this.nextId++, subject: target, status: 'open', flags: [entry], createdAt: now, updatedAt: now };
+      this.items.push(item);
+    }
+
+    this.record({
+      itemId: item.id,
+      action: flag.source === 'report' ? 'report' : 'flag',
+      actor: flag.reporter ?? 'system',
+      fromStatus: item.flags.length > 1 ? 'open' : null,
+      toStatus: 'open',
+      note: flag.reasons.join('; '),
+    });
+    await this.save();
+    return item;
+  }
+
+  /**
+   * A user report. One open report per reporter and subject.
+   */
+  async report(subject: ModerationSubject, reporter: string, reason: string): Promise<ModerationItem> {
+    await this.load();
+    const target = normalizeSubject(subject);
+    const open = this.items.find((i) => i.status === 'open' && sameSubject(i.subject, target));
+    if (open?.flags.some((f) => f.source === 'report' && f.reporter?.toLowerCase() === reporter.toLowerCase())) {
+      throw new AppError('You have already reported this', 409);
+    }
+    return this.flag(target, { source: 'report', reasons: [reason], reporter: reporter.toLowerCase() });
+  }
+
+  /**
+   * Apply a reviewer action. Actions can revise earlier decisions, so
+   * dismissing a hidden item puts it back in listings.
+   */
+  async act(itemId: number, action: ModerationAction, reviewer: string, note?: string): Promise<ModerationItem> {
+    await this.load();
+    const item = this.items.find((i) => i.id === itemId);
+    if (!item) {
+      throw new AppError('Moderation item not found', 404);
+    }
+    if (action === 'recommendCancel' && item.subject.type !== 'task') {
+      throw new AppError('Only tasks can be recommended for cancellation', 400);
+    }
+
+    const fromStatus = item.status;
+    item.status = ACTION_STATUS[action];
+    item.updatedAt = Math.floor(Date.now() / 1000);
+    this.record({
+      itemId,
+      action,
+      actor: reviewer.toLowerCase(),
+      fromStatus,
+      toStatus: item.status,
+      note: note ?? null,
+    });
+    await this.save();
+    return item;
+  }
+
+  async list(status?: ModerationStatus): Promise<ModerationItem[]> {
+    await this.load();
+    return this.items.filter((item) => !status || item.status === status).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Audit entries, newest first
+   */
+  async getAudit(itemId?: number, limit = 100): Promise<AuditEntry[]> {
+    await this.load();
+    return this.audit
+      .filter((entry) => itemId === undefined || entry.itemId === itemId)
+      .slice(-limit)
+      .reverse();
+  }
+
+  /**
+   * Tasks kept out of listings: hidden tasks and every task of a hidden user
+   */
+  async getHiddenTaskIds(): Promise<Set<number>> {
+    await this.load();
+    const hidden = this.items.filter((item) => item.status === 'hidden');
+    const users = new Set(hidden.flatMap((item) => (item.subject.type === 'user' ? [item.subject.address] : [])));
+    const ids = new Set(hidden.flatMap((item) => (item.subject.type === 'task' ? [item.subject.taskId] : [])));
+
+    if (users.size > 0) {
+      for (const task of taskStore.getTasks()) {
+        if (users.has(task.creator.toLowerCase())) {
+          ids.add(task.id);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private record(entry: Omit<AuditEntry, 'id' | 'at'>): void {
+    this.audit.push({ ...entry, id: this.audit.length + 1, at: Math.floor(Date.now() / 1000) });
+  }
+
+  private async save(): Promise<void> {
+    const snapshot: ModerationSnapshot = { nextId: this.nextId, items: this.items, audit: this.audit };
+    this.saving = this.saving.catch(() => undefined).then(() => writeJSONFile(this.filePath, snapshot));
+    await this.saving;
+  }
+}
+
+export default new ModerationService();
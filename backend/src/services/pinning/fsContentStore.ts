@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import { CID } from 'multiformats/cid';
+import * as Digest from 'multiformats/hashes/digest';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { RAW_CODEC, SHA2_256 } from '../../shared/cid';
+import { getDataDir } from '../../utils/jsonFile';
+import { ContentStore, PinResult } from './types';
+
+const cidFromDigest = (digest: Buffer): string => CID.createV1(RAW_CODEC, Digest.create(SHA2_256, digest)).toString();
+
+/**
+ * CIDv1 of the bytes as a single raw block (codec 0x55, sha2-256 multihash),
+ * base32 encoded. Kubo gives content up to one chunk the same CID; larger
+ * files are chunked into a UnixFS DAG there.
+ */
+export const rawBlockCid = (content: Uint8Array): string =>
+  cidFromDigest(crypto.createHash('sha256').update(content).digest());
+
+/**
+ * Content-addressed store on the local filesystem, for tests and offline
+ * development. Nothing is published to the IPFS network.
+ */
+export class FsContentStore implements ContentStore {
+  readonly name = 'fs';
+  private dir: string;
+
+  constructor(dir = process.env.IPFS_FS_STORE_DIR || path.join(getDataDir(), 'ipfs')) {
+    this.dir = dir;
+  }
+
+  /**
+   * Streams into a temp file while hashing, then moves it under its CID
+   */
+  async add(content: Uint8Array | AsyncIterable<Uint8Array>): Promise<string> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmpPath = path.join(this.dir, `.upload-${crypto.randomBytes(8).toString('hex')}`);
+    const hash = crypto.createHash('sha256');
+
+    async function* hashed(source: Iterable<Uint8Array> | AsyncIterable<Uint8Array>) {
+      for await (const chunk of source) {
+        hash.update(chunk);
+        yield chunk;
+      }
+    }
+
+    try {
+      const source = content instanceof Uint8Array ? [content] : content;
+      await pipeline(Readable.from(hashed(source)), createWriteStream(tmpPath));
+      const cid = cidFromDigest(hash.digest());
+      await fs.rename(tmpPath, this.blockPath(cid));
+      return cid;
+    } catch (error) {
+      await fs.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+
+  cat(cid: string): AsyncIterable<Uint8Array> {
+    return createReadStream(this.blockPath(cid));
+  }
+
+  async pin(cid: string): Promise<PinResult> {
+    // Throws when the block was never added
+    await fs.access(this.blockPath(cid));
+    await fs.writeFile(this.pinPath(cid), '');
+    return { status: 'pinned' };
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await fs.rm(this.pinPath(cid), { force: true });
+  }
+
+  async status(cid: string): Promise<PinResult> {
+    try {
+      await fs.access(this.pinPath(cid));
+      return { status: 'pinned' };
+    } catch {
+      return { status: 'unpinned' };
+    }
+  }
+
+  private blockPath(cid: string): string {
+    if (!/^[a-z0-9]+$/i.test(cid)) {
+      throw new Error(`Invalid CID: ${cid}`);
+    }
+    return path.join(this.dir, cid);
+  }
+
+  private pinPath(cid: string): string {
+    return `${this.blockPath(cid)}.pin`;
+  }
+}
@@ -0,0 +1,36 @@
+import { FsContentStore } from './fsContentStore';
+import { KuboPinningProvider } from './kuboProvider';
+import { RemotePinningProvider } from './remotePinningProvider';
+import { PinningProvider } from './types';
+
+export * from './types';
+export { FsContentStore, rawBlockCid } from './fsContentStore';
+export { KuboPinningProvider } from './kuboProvider';
+export { RemotePinningProvider } from './remotePinningProvider';
+export { PinRegistry } from './registry';
+export type { PinRecord } from './registry';
+
+/**
+ * Providers listed in IPFS_PINNING_PROVIDERS (`kubo`, `pinning-service`,
+ * `fs`), comma separated. Uploads go to the first provider that stores
+ * content and are pinned on all of them. Defaults to `kubo`.
+ */
+export const createPinningProviders = (): PinningProvider[] => {
+  const names = (process.env.IPFS_PINNING_PROVIDERS || 'kubo')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    switch (name) {
+      case 'kubo':
+        return new KuboPinningProvider();
+      case 'pinning-service':
+        return new RemotePinningProvider();
+      case 'fs':
+        return new FsContentStore();
+      default:
+        throw new Error(`Unknown pinning provider: ${name}`);
+    }
+  });
+};
@@ -0,0 +1,62 @@
+import { create, IPFSHTTPClient } from 'ipfs-http-client';
+import { ContentStore, PinResult } from './types';
+
+/*
+ * CIDv1 with raw leaves, in chunks of Kubo's largest block size: anything up
+ * to 1 MiB is a single raw block, with the same CID FsContentStore gives it,
+ * so gateway reads can be checked against the CID. Larger files get a dag-pb
+ * root and are read from the node only.
+ */
+const ADD_OPTIONS = { cidVersion: 1, rawLeaves: true, chunker: `size-${1024 * 1024}` } as const;
+
+/**
+ * Kubo RPC API: a local node, or a hosted one such as Infura's
+ */
+export class KuboPinningProvider implements ContentStore {
+  readonly name = 'kubo';
+  private client: IPFSHTTPClient;
+
+  constructor(
+    url = process.env.IPFS_API_URL || 'https://ipfs.infura.io:5001',
+    projectId = process.env.IPFS_PROJECT_ID,
+    projectSecret = process.env.IPFS_PROJECT_SECRET
+  ) {
+    const auth = projectId && projectSecret
+      ? 'Basic ' + Buffer.from(projectId + ':' + projectSecret).toString('base64')
+      : undefined;
+
+    this.client = create({
+      url,
+      headers: auth ? { authorization: auth } : {},
+    });
+  }
+
+  async add(content: Uint8Array | AsyncIterable<Uint8Array>): Promise<string> {
+    const result = await this.client.add(content, ADD_OPTIONS);
+    return result.cid.toString();
+  }
+
+  cat(cid: string): AsyncIterable<Uint8Array> {
+    return this.client.cat(cid);
+  }
+
+  async pin(cid: string): Promise<PinResult> {
+    await this.client.pin.add(cid);
+    return { status: 'pinned' };
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await this.client.pin.rm(cid);
+  }
+
+  async status(cid: string): Promise<PinResult> {
+    try {
+      for await (const _pin of this.client.pin.ls({ paths: cid })) {
+        return { status: 'pinned' };
+      }
+    } catch {
+      // Kubo reports an unpinned path as an error
+    }
+    return { status: 'unpinned' };
+  }
+}
@@ -0,0 +1,64 @@
+import path from 'path';
+import { getDataDir, readJSONFile, writeJSONFile } from '../../utils/jsonFile';
+import { PinState } from './types';
+
+export interface PinRecord {
+  provider: string;
+  status: PinState;
+  requestId?: string;
+  /** Unix seconds */
+  updatedAt: number;
+  error?: string;
+}
+
+type PinSnapshot = Record<string, PinRecord[]>;
+
+/**
+ * Which CIDs are pinned where, persisted so replication can be audited and
+ * retried
+ */
+export class PinRegistry {
+  private filePath: string;
+  private pins: PinSnapshot = {};
+  private loaded: Promise<void> | null = null;
+  // Writes are chained so concurrent pins never race on the temp file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath = path.join(getDataDir(), 'pins.json')) {
+    this.filePath = filePath;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJSONFile<PinSnapshot>(this.filePath).then((snapshot) => {
+        this.pins = snapshot ?? {};
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * One record per provider, ordered by provider name
+   */
+  async get(cid: string): Promise<PinRecord[]> {
+    await this.load();
+    return this.pins[cid] ?? [];
+  }
+
+  /**
+   * Record a provider's pin state for a CID, replacing its previous record
+   */
+  async set(cid: string, record: PinRecord): Promise<void> {
+    await this.load();
+    this.pins[cid] = [...(this.pins[cid] ?? []).filter((r) => r.provider !== record.provider), record].sort((a, b) =>
+      a.provider.localeCompare(b.provider)
+    );
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    const snapshot = this.pins;
+    this.saving = this.saving.catch(() => undefined).then(() => writeJSONFile(this.filePath, snapshot));
+    await this.saving;
+  }
+}
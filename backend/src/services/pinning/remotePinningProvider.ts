@@ -0,0 +1,69 @@
+import { PinningProvider, PinResult, PinState } from './types';
+
+interface RemotePinStatus {
+  requestid: string;
+  status: Exclude<PinState, 'unpinned'>;
+}
+
+/**
+ * Any service implementing the IPFS Pinning Services API
+ * (https://ipfs.github.io/pinning-services-api-spec/), e.g. Pinata or Filebase.
+ * Pins are asynchronous: the service fetches the blocks from the network, so
+ * a new pin usually starts out `queued`.
+ */
+export class RemotePinningProvider implements PinningProvider {
+  readonly name: string;
+  private endpoint: string;
+  private token: string;
+
+  constructor(
+    endpoint = process.env.PINNING_SERVICE_ENDPOINT,
+    token = process.env.PINNING_SERVICE_TOKEN,
+    name = process.env.PINNING_SERVICE_NAME || 'pinning-service'
+  ) {
+    if (!endpoint || !token) {
+      throw new Error('PINNING_SERVICE_ENDPOINT and PINNING_SERVICE_TOKEN are required for the pinning service');
+    }
+    this.endpoint = endpoint.replace(/\/+$/, '');
+    this.token = token;
+    this.name = name;
+  }
+
+  async pin(cid: string, name?: string): Promise<PinResult> {
+    const status = await this.request<RemotePinStatus>('POST', '/pins', { cid, ...(name ? { name } : {}) });
+    return { status: status.status, requestId: status.requestid };
+  }
+
+  async unpin(cid: string): Promise<void> {
+    const pins = await this.find(cid);
+    for (const pin of pins) {
+      await this.request('DELETE', `/pins/${encodeURIComponent(pin.requestid)}`);
+    }
+  }
+
+  async status(cid: string): Promise<PinResult> {
+    const [latest] = await this.find(cid);
+    return latest ? { status: latest.status, requestId: latest.requestid } : { status: 'unpinned' };
+  }
+
+  private async find(cid: string): Promise<RemotePinStatus[]> {
+    const query = new URLSearchParams({ cid, status: 'queued,pinning,pinned,failed' });
+    const body = await this.request<{ results: RemotePinStatus[] }>('GET', `/pins?${query}`);
+    return body.results;
+  }
+
+  private async request<T = unknown>(method: string, pathname: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.endpoint}${pathname}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(`Pinning service ${method} ${pathname.split('?')[0]} failed with status ${response.status}`);
+    }
+    return (response.status === 202 && method === 'DELETE' ? undefined : await response.json()) as T;
+  }
+}
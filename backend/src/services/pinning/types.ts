@@ -0,0 +1,31 @@
+/**
+ * Lifecycle of a pin. The first four follow the IPFS Pinning Services API;
+ * `unpinned` means the provider does not hold the CID.
+ */
+export type PinState = 'queued' | 'pinning' | 'pinned' | 'failed' | 'unpinned';
+
+export interface PinResult {
+  status: PinState;
+  /** Provider-side ID of the pin request, where the provider has one */
+  requestId?: string;
+}
+
+export interface PinningProvider {
+  readonly name: string;
+  pin(cid: string, name?: string): Promise<PinResult>;
+  unpin(cid: string): Promise<void>;
+  status(cid: string): Promise<PinResult>;
+}
+
+/**
+ * A provider that also stores and serves content. Remote pinning services
+ * only pin by CID and fetch the blocks from the network themselves.
+ */
+export interface ContentStore extends PinningProvider {
+  /** Chunks are consumed as they arrive; a source that throws aborts the add */
+  add(content: Uint8Array | AsyncIterable<Uint8Array>): Promise<string>;
+  cat(cid: string): AsyncIterable<Uint8Array>;
+}
+
+export const isContentStore = (provider: PinningProvider): provider is ContentStore =>
+  typeof (provider as ContentStore).add === 'function' && typeof (provider as ContentStore).cat === 'function';
@@ -0,0 +1,297 @@
+import path from 'path';
+import { IndexedEvent, IndexedTask } from '../types/task';
+import { getDataDir, readJSONFile, writeJSONFile } from '../utils/jsonFile';
+import claudeAI, { AIProvenance, RerankCandidate } from './claudeAI';
+import { averageVectors, cosineSimilarity, createEmbeddingProvider, EmbeddingProvider } from './llm';
+import moderation from './moderation';
+import taskMetadata from './taskMetadata';
+import taskStore from './taskStore';
+import type { TaskIndexer } from './taskIndexer';
+
+const EMBED_BATCH_SIZE = 32;
+// Older completed work counts for less in a skill profile
+const HISTORY_HALF_LIFE_DAYS = 180;
+
+interface TaskVector {
+  ipfsHash: string;
+  vector: number[];
+}
+
+interface VectorSnapshot {
+  model: string;
+  tasks: Record<string, TaskVector>;
+}
+
+export type RecommendationBasis = 'history' | 'skills' | 'history+skills' | 'recent';
+
+export interface Recommendation {
+  taskId: number;
+  /** Cosine similarity to the user's profile; null when there is no profile */
+  score: number | null;
+  task: IndexedTask;
+}
+
+export interface RecommendationOptions {
+  limit: number;
+  /** Declared skills, blended with completed-task history */
+  skills: string[];
+  /** Let the LLM reorder the top candidates */
+  rerank: boolean;
+}
+
+export interface RecommendationResult {
+  recommendations: Recommendation[];
+  basis: RecommendationBasis;
+  reranked: boolean;
+  /** Provenance of the rerank call, when one was made */
+  rerankProvenance: AIProvenance | null;
+}
+
+const toText = (value: unknown): string =>
+  Array.isArray(value) ? value.filter((v) => typeof v === 'string').join('\n') : typeof value === 'string' ? value : '';
+
+/**
+ * Embedding-based task recommendations. Indexed tasks get vectors (persisted
+ * to disk), users get a profile vector from the tasks they completed, and
+ * open tasks are ranked by similarity locally. An LLM rerank of the top
+ * candidates is optional.
+ */
+export class RecommendationEngine {
+  private filePath: string;
+  private provider: EmbeddingProvider | null;
+  private vectors = new Map<number, TaskVector>();
+  private loaded = false;
+  // Writes are chained so concurrent embeds never race on the temp file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath = path.join(getDataDir(), 'task-vectors.json'), provider?: EmbeddingProvider) {
+    this.filePath = filePath;
+    this.provider = provider ?? null;
+  }
+
+  private getProvider(): EmbeddingProvider {
+    if (!this.provider) {
+      this.provider = createEmbeddingProvider();
+    }
+    return this.provider;
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const snapshot = await readJSONFile<VectorSnapshot>(this.filePath);
+    // Vectors from another model live in a different space
+    if (!snapshot || snapshot.model !== this.getProvider().model) return;
+    for (const [id, entry] of Object.entries(snapshot.tasks)) {
+      this.vectors.set(Number(id), entry);
+    }
+  }
+
+  /**
+   * Embed new tasks as the indexer sees them and drop reorged ones
+   */
+  async attach(indexer: TaskIndexer): Promise<void> {
+    await this.load();
+
+    indexer.on('event', (event: IndexedEvent) => {
+      if (event.name !== 'TaskCreated') return;
+      const task = taskStore.getTask(event.taskId);
+      if (task) {
+        this.embedTasks([task]).catch((error) => console.error(`Error embedding task ${task.id}:`, error));
+      }
+    });
+
+    indexer.on('reorg', (_forkBlock: number, dropped: IndexedEvent[]) => {
+      for (const event of dropped) {
+        if (event.name === 'TaskCreated') {
+          this.vectors.delete(event.taskId);
+        }
+      }
+    });
+
+    await this.embedTasks(taskStore.getTasks());
+  }
+
+  async recommend(address: string, options: RecommendationOptions): Promise<RecommendationResult> {
+    await this.load();
+
+    const now = Math.floor(Date.now() / 1000);
+    const hidden = await moderation.getHiddenTaskIds();
+    const candidates = taskStore
+      .getTasks()
+      .filter(
+        (t) =>
+          t.status === 'Open' &&
+          t.deadline > now &&
+          !hidden.has(t.id) &&
+          t.creator.toLowerCase() !== address.toLowerCase()
+      );
+    await this.embedTasks(candidates);
+
+    const { vector: profile, basis } = await this.buildProfile(address, options.skills);
+    if (!profile) {
+      const recent = [...candidates].sort((a, b) => b.createdAt - a.createdAt || a.id - b.id).slice(0, options.limit);
+      return {
+        recommendations: recent.map((task) => ({ taskId: task.id, score: null, task })),
+        basis: 'recent',
+        reranked: false,
+        rerankProvenance: null,
+      };
+    }
+
+    let ranked: Recommendation[] = candidates
+      .filter((task) => this.vectors.has(task.id))
+      .map((task) => ({
+        taskId: task.id,
+        score: Math.round(cosineSimilarity(profile, this.vectors.get(task.id)!.vector) * 10000) / 10000,
+        task,
+      }))
+      .sort((a, b) => b.score! - a.score! || a.taskId - b.taskId);
+
+    let reranked = false;
+    let rerankProvenance: AIProvenance | null = null;
+    if (options.rerank && ranked.length > 1) {
+      const topK = parseInt(process.env.RECOMMENDATION_RERANK_TOP_K || '20');
+      const top = ranked.slice(0, topK);
+      const { data: order, ...provenance } = await claudeAI.recommendTasks(
+        await this.describeUser(address, options.skills),
+        await Promise.all(top.map((entry) => this.describeCandidate(entry.task))),
+        { wallet: address }
+      );
+      rerankProvenance = provenance;
+
+      if (provenance.source !== 'fallback') {
+        const byId = new Map(top.map((entry) => [entry.taskId, entry]));
+        ranked = [...order.map((id) => byId.get(id)!), ...ranked.slice(topK)];
+        reranked = true;
+      }
+    }
+
+    return { recommendations: ranked.slice(0, options.limit), basis, reranked, rerankProvenance };
+  }
+
+  /**
+   * Cosine similarity of free text to each task, keyed by task ID
+   */
+  async similarities(text: string, tasks: IndexedTask[]): Promise<Map<number, number>> {
+    await this.load();
+    await this.embedTasks(tasks);
+    const [query] = await this.getProvider().embed([text]);
+
+    const scores = new Map<number, number>();
+    for (const task of tasks) {
+      const entry = this.vectors.get(task.id);
+      if (entry) {
+        scores.set(task.id, cosineSimilarity(query, entry.vector));
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Embed tasks that have no vector yet (or whose metadata changed)
+   */
+  private async embedTasks(tasks: IndexedTask[]): Promise<void> {
+    const missing = tasks.filter((task) => this.vectors.get(task.id)?.ipfsHash !== task.ipfsHash);
+    if (missing.length === 0) return;
+
+    for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+      const texts = await Promise.all(batch.map((task) => this.taskText(task)));
+      const vectors = await this.getProvider().embed(texts);
+      batch.forEach((task, index) => this.vectors.set(task.id, { ipfsHash: task.ipfsHash, vector: vectors[index] }));
+    }
+    await this.save();
+  }
+
+  /**
+   * Profile vector: completed tasks weighted by recency, blended with any
+   * declared skills
+   */
+  private async buildProfile(
+    address: string,
+    skills: string[]
+  ): Promise<{ vector: number[] | null; basis: RecommendationBasis }> {
+    const completed = this.getCompletedTasks(address);
+    await this.embedTasks(completed);
+
+    const now = Date.now() / 1000;
+    const vectors: number[][] = [];
+    const weights: number[] = [];
+    for (const task of completed) {
+      const entry = this.vectors.get(task.id);
+      if (!entry) continue;
+      const ageDays = (now - (task.completedAt ?? task.createdAt)) / 86400;
+      vectors.push(entry.vector);
+      weights.push(Math.pow(0.5, Math.max(0, ageDays) / HISTORY_HALF_LIFE_DAYS));
+    }
+
+    if (skills.length > 0) {
+      const [skillVector] = await this.getProvider().embed([skills.join('\n')]);
+      vectors.push(skillVector);
+      // Declared skills weigh as much as the whole history, so they matter for new users and veterans alike
+      weights.push(Math.max(1, weights.reduce((sum, w) => sum + w, 0)));
+    }
+
+    if (vectors.length === 0) {
+      return { vector: null, basis: 'recent' };
+    }
+    const basis = completed.length > 0 ? (skills.length > 0 ? 'history+skills' : 'history') : 'skills';
+    return { vector: averageVectors(vectors, weights), basis };
+  }
+
+  private getCompletedTasks(address: string): IndexedTask[] {
+    return taskStore
+      .getTasks()
+      .filter((t) => t.status === 'Completed' && t.worker?.toLowerCase() === address.toLowerCase());
+  }
+
+  private async taskText(task: IndexedTask): Promise<string> {
+    const metadata = await taskMetadata.get(task.ipfsHash);
+    return [
+      toText(metadata?.title),
+      `Category: ${task.category}`,
+      toText(metadata?.description),
+      toText(metadata?.requirements),
+      toText(metadata?.deliverables),
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private async describeUser(address: string, skills: string[]) {
+    const completed = this.getCompletedTasks(address);
+    return {
+      skills,
+      completedTasks: await Promise.all(
+        completed.slice(-20).map(async (task) => ({
+          title: toText((await taskMetadata.get(task.ipfsHash))?.title) || `Task #${task.id}`,
+          category: task.category,
+        }))
+      ),
+    };
+  }
+
+  private async describeCandidate(task: IndexedTask): Promise<RerankCandidate> {
+    const metadata = await taskMetadata.get(task.ipfsHash);
+    return {
+      id: task.id,
+      title: toText(metadata?.title) || `Task #${task.id}`,
+      category: task.category,
+      summary: toText(metadata?.description).slice(0, 300),
+      bounty: task.bounty,
+    };
+  }
+
+  private async save(): Promise<void> {
+    const snapshot: VectorSnapshot = {
+      model: this.getProvider().model,
+      tasks: Object.fromEntries(this.vectors),
+    };
+    this.saving = this.saving.catch(() => undefined).then(() => writeJSONFile(this.filePath, snapshot));
+    await this.saving;
+  }
+}
+
+export default new RecommendationEngine();
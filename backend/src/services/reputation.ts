@@ -0,0 +1,63 @@
+import { ethers } from 'ethers';
+import { getContractAddresses, getProvider } from '../config/blockchain';
+import { REPUTATION_NFT_ABI } from '../contracts/abis';
+import { REPUTATION_TIERS, ReputationSummary, ReputationTier } from '../types/user';
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Read a wallet's data from the ReputationNFT contract, or null when it holds
+ * no reputation NFT
+ */
+export async function readReputation(contract: ethers.Contract, address: string): Promise<ReputationSummary | null> {
+  const tokenId: bigint = await contract.getUserTokenId(address);
+  if (tokenId === 0n) return null;
+
+  const data = await contract.getReputationData(address);
+  return {
+    tokenId: Number(tokenId),
+    score: data.score.toString(),
+    tier: REPUTATION_TIERS[Number(data.tier)],
+    tasksCompleted: data.tasksCompleted.toString(),
+    tasksCreated: data.tasksCreated.toString(),
+    totalEarned: data.totalEarned.toString(),
+    disputesWon: data.disputesWon.toString(),
+    disputesLost: data.disputesLost.toString(),
+  };
+}
+
+/**
+ * Cached ReputationNFT lookups for request-path decisions such as rate
+ * limits and fraud scoring
+ */
+export class ReputationService {
+  private summaries = new Map<string, { summary: ReputationSummary | null; expiresAt: number }>();
+
+  /**
+   * Resolve a wallet's tier, or null when it holds no reputation NFT
+   */
+  async getTier(address: string): Promise<ReputationTier | null> {
+    return (await this.getSummary(address))?.tier ?? null;
+  }
+
+  /**
+   * Reputation data for a wallet, or null when it holds no reputation NFT
+   */
+  async getSummary(address: string): Promise<ReputationSummary | null> {
+    const key = address.toLowerCase();
+    const cached = this.summaries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.summary;
+    }
+
+    const { reputationNFT } = getContractAddresses();
+    if (!reputationNFT) return null;
+
+    const contract = new ethers.Contract(reputationNFT, REPUTATION_NFT_ABI, getProvider());
+    const summary = await readReputation(contract, address);
+    this.summaries.set(key, { summary, expiresAt: Date.now() + CACHE_TTL_MS });
+    return summary;
+  }
+}
+
+export default new ReputationService();
@@ -0,0 +1,73 @@
+import { AppError } from '../middleware/errorHandler';
+import claudeAI, { AIResult, SubmissionReview } from './claudeAI';
+import { loadDocumentText } from './documentLoader';
+import taskMetadata from './taskMetadata';
+import taskStore from './taskStore';
+
+export interface SubmissionReviewResult {
+  taskId: number;
+  submissionHash: string;
+  review: AIResult<SubmissionReview>;
+}
+
+/**
+ * AI review of a task submission for the task's creator. Reviews are
+ * advisory: approving or disputing stays a transaction the creator signs.
+ */
+export class SubmissionReviewService {
+  // Keyed by task and submission; a resubmission gets a fresh review
+  private cache = new Map<string, SubmissionReviewResult>();
+
+  async review(taskId: number, requester: string): Promise<SubmissionReviewResult> {
+    const task = taskStore.getTask(taskId);
+    if (!task) {
+      throw new AppError('Task not found', 404);
+    }
+    if (task.creator.toLowerCase() !== requester.toLowerCase()) {
+      throw new AppError('Only the task creator can request a review', 403);
+    }
+    if (!task.submissionHash) {
+      throw new AppError('Task has no submission to review', 409);
+    }
+
+    const key = `${taskId}:${task.submissionHash}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const [metadata, submission] = await Promise.all([
+      taskMetadata.get(task.ipfsHash),
+      loadDocumentText('submission', task.submissionHash),
+    ]);
+    if (!metadata) {
+      throw new AppError('Task metadata could not be loaded from IPFS', 502);
+    }
+    if (submission === null) {
+      throw new AppError('Submission could not be loaded from IPFS or is encrypted', 502);
+    }
+
+    // Acceptance criteria are requirements the creator will judge against
+    const requirements = [...metadata.requirements, ...metadata.acceptanceCriteria];
+    const { deliverables } = metadata;
+    if (requirements.length + deliverables.length === 0) {
+      throw new AppError('Task metadata lists no requirements or deliverables to review against', 422);
+    }
+
+    const review = await claudeAI.reviewSubmission({
+      title: metadata.title,
+      description: metadata.description,
+      requirements,
+      deliverables,
+      submission,
+    }, { wallet: requester });
+
+    const result = { taskId, submissionHash: task.submissionHash, review };
+    if (review.source !== 'fallback') {
+      this.cache.set(key, result);
+    }
+    return result;
+  }
+}
+
+export default new SubmissionReviewService();
@@ -0,0 +1,210 @@
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { getContractAddresses, getProvider } from '../config/blockchain';
+import { ERC20_ABI, TASK_MANAGER_ABI } from '../contracts/abis';
+import { AppError } from '../middleware/errorHandler';
+import { FileReferenceSchema, TaskMetadata } from '../shared/documents';
+import { EncryptedDocumentSchema } from '../shared/encryption';
+import { TASK_CATEGORIES, TaskCategory } from '../types/task';
+import claudeAI from './claudeAI';
+import fraudScoring, { FraudScore } from './fraudScoring';
+import ipfsService from './ipfs';
+
+export const TaskDraftSchema = z.object({
+  title: z.string().trim().min(5).max(200),
+  description: z.string().trim().min(20).max(20000),
+  requirements: z.array(z.string().trim().min(1).max(1000)).max(50).default([]),
+  deliverables: z.array(z.string().trim().min(1).max(1000)).min(1).max(50),
+  acceptanceCriteria: z.array(z.string().trim().min(1).max(1000)).max(50).default([]),
+  skills: z.array(z.string().trim().min(1).max(100)).max(30).default([]),
+  /** Files already uploaded through /api/ipfs/files */
+  attachments: z.array(FileReferenceSchema).max(20).default([]),
+  bounty: z.string().regex(/^[1-9]\d*$/, 'Bounty must be a positive integer amount in wei'),
+  deadline: z.number().int().refine((value) => value > Math.floor(Date.now() / 1000), {
+    message: 'Deadline must be in the future',
+  }),
+  category: z.enum(TASK_CATEGORIES).optional(),
+  requiredReputation: z.number().int().nonnegative().default(0),
+  isUrgent: z.boolean().default(false),
+});
+
+export type TaskDraft = z.infer<typeof TaskDraftSchema>;
+
+/**
+ * A task whose brief the creator encrypted client-side. The backend can't
+ * read it, so the category is required and the fraud check leaves out the
+ * AI assessment.
+ */
+export const PrivateTaskDraftSchema = TaskDraftSchema.pick({
+  bounty: true,
+  deadline: true,
+  requiredReputation: true,
+  isUrgent: true,
+}).extend({
+  category: z.enum(TASK_CATEGORIES),
+  brief: EncryptedDocumentSchema,
+});
+
+export type PrivateTaskDraft = z.infer<typeof PrivateTaskDraftSchema>;
+
+export interface UnsignedTransaction {
+  to: string;
+  data: string;
+  value: string;
+  description: string;
+}
+
+export type TaskCreationResult =
+  | {
+      status: 'held';
+      fraud: FraudScore;
+      suggestedCategory: TaskCategory | null;
+    }
+  | {
+      status: 'ready';
+      ipfsHash: string;
+      metadataUrl: string;
+      category: TaskCategory;
+      suggestedCategory: TaskCategory | null;
+      fraud: FraudScore;
+      transactions: UnsignedTransaction[];
+    };
+
+/**
+ * Turns a task draft into pinned metadata plus the unsigned transactions the
+ * creator has to sign. Nothing here holds keys or submits transactions.
+ */
+export class TaskCreationService {
+  /**
+   * @param creator Authenticated wallet that will sign and send the transactions
+   */
+  async prepare(draft: TaskDraft, creator: string): Promise<TaskCreationResult> {
+    const { taskManager, taskToken } = getContractAddresses();
+    if (!taskManager || !taskToken) {
+      throw new AppError('Task creation is not configured', 503);
+    }
+
+    const text = [
+      draft.title,
+      draft.description,
+      `Requirements:\n${draft.requirements.join('\n')}`,
+      `Deliverables:\n${draft.deliverables.join('\n')}`,
+      `Acceptance criteria:\n${draft.acceptanceCriteria.join('\n')}`,
+      `Bounty (wei): ${draft.bounty}`,
+    ].join('\n\n');
+
+    const [fraud, aiCategory] = await Promise.all([
+      fraudScoring.score({ creator, text, bounty: draft.bounty, category: draft.category, caller: creator }),
+      claudeAI.categorizeTask(text, { wallet: creator }),
+    ]);
+    // A fallback 'Other' is not a suggestion
+    const suggestedCategory = aiCategory.source !== 'fallback' ? aiCategory.data : null;
+
+    if (fraud.flagged) {
+      return { status: 'held', fraud, suggestedCategory };
+    }
+
+    const category = draft.category ?? suggestedCategory ?? 'Other';
+
+    const metadata: TaskMetadata = {
+      schemaVersion: 1,
+      title: draft.title,
+      description: draft.description,
+      requirements: draft.requirements,
+      deliverables: draft.deliverables,
+      acceptanceCriteria: draft.acceptanceCriteria,
+      skills: draft.skills,
+      attachments: draft.attachments,
+      category,
+      creator,
+      createdAt: new Date().toISOString(),
+    };
+    const ipfsHash = await ipfsService.uploadJSON('task', metadata);
+
+    return {
+      status: 'ready',
+      ipfsHash,
+      metadataUrl: ipfsService.getGatewayUrl(ipfsHash),
+      category,
+      suggestedCategory,
+      fraud,
+      transactions: await this.buildTransactions({ taskManager, taskToken }, ipfsHash, draft, category, creator),
+    };
+  }
+
+  /**
+   * Same as prepare for a task with an encrypted brief, held on the
+   * creator's history and the bounty since there is no text to check. The
+   * brief must carry a key for the creator, or nobody could ever read it.
+   */
+  async preparePrivate(draft: PrivateTaskDraft, creator: string): Promise<TaskCreationResult> {
+    const { taskManager, taskToken } = getContractAddresses();
+    if (!taskManager || !taskToken) {
+      throw new AppError('Task creation is not configured', 503);
+    }
+    if (draft.brief.kind !== 'task') {
+      throw new AppError('The brief must be an encrypted task document', 400);
+    }
+    if (!draft.brief.keys.some((key) => key.recipient === creator.toLowerCase())) {
+      throw new AppError('The brief must include a key for the creator', 400);
+    }
+
+    const fraud = await fraudScoring.score({ creator, text: null, bounty: draft.bounty, category: draft.category });
+    if (fraud.flagged) {
+      return { status: 'held', fraud, suggestedCategory: null };
+    }
+
+    const ipfsHash = await ipfsService.uploadJSON('task', draft.brief);
+
+    return {
+      status: 'ready',
+      ipfsHash,
+      metadataUrl: ipfsService.getGatewayUrl(ipfsHash),
+      category: draft.category,
+      suggestedCategory: null,
+      fraud,
+      transactions: await this.buildTransactions({ taskManager, taskToken }, ipfsHash, draft, draft.category, creator),
+    };
+  }
+
+  private async buildTransactions(
+    { taskManager, taskToken }: { taskManager: string; taskToken: string },
+    ipfsHash: string,
+    draft: Pick<TaskDraft, 'bounty' | 'deadline' | 'requiredReputation' | 'isUrgent'>,
+    category: TaskCategory,
+    creator: string
+  ): Promise<UnsignedTransaction[]> {
+    const transactions: UnsignedTransaction[] = [];
+    const bounty = BigInt(draft.bounty);
+
+    const token = new ethers.Contract(taskToken, ERC20_ABI, getProvider());
+    const allowance: bigint = await token.allowance(creator, taskManager);
+    if (allowance < bounty) {
+      transactions.push({
+        to: taskToken,
+        data: token.interface.encodeFunctionData('approve', [taskManager, bounty]),
+        value: '0',
+        description: 'Approve TaskManager to escrow the bounty',
+      });
+    }
+
+    const manager = new ethers.Interface(TASK_MANAGER_ABI);
+    transactions.push({
+      to: taskManager,
+      data: manager.encodeFunctionData('createTask', [
+        ipfsHash,
+        bounty,
+        draft.deadline,
+        TASK_CATEGORIES.indexOf(category),
+        draft.requiredReputation,
+        draft.isUrgent,
+      ]),
+      value: '0',
+      description: 'Create task and escrow bounty',
+    });
+
+    return transactions;
+  }
+}
+
+export default new TaskCreationService();
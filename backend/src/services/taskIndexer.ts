@@ -0,0 +1,251 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { getContractAddresses, getProvider } from '../config/blockchain';
+import { TASK_MANAGER_ABI } from '../contracts/abis';
+import { IndexedEvent, TASK_CATEGORIES, TaskEventName } from '../types/task';
+import taskStore, { BlockRef, REORG_WINDOW, TaskStore } from './taskStore';
+
+const TASK_EVENTS: TaskEventName[] = [
+  'TaskCreated',
+  'TaskAssigned',
+  'TaskSubmitted',
+  'TaskCompleted',
+  'TaskCancelled',
+  'TaskDisputed',
+  'DisputeResolved',
+];
+
+interface IndexerOptions {
+  startBlock: number;
+  confirmations: number;
+  batchSize: number;
+  pollIntervalMs: number;
+}
+
+const readOptions = (): IndexerOptions => ({
+  startBlock: parseInt(process.env.INDEXER_START_BLOCK || '0'),
+  confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '5'),
+  batchSize: parseInt(process.env.INDEXER_BATCH_SIZE || '2000'),
+  pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '5000'),
+});
+
+/**
+ * Follows TaskManager events and keeps the task store up to date.
+ *
+ * Emits:
+ * - `event` (IndexedEvent) for every newly indexed event
+ * - `reorg` (forkBlock, droppedEvents) when indexed blocks were replaced
+ */
+export class TaskIndexer extends EventEmitter {
+  private store: TaskStore;
+  private provider: ethers.JsonRpcProvider | null;
+  private iface = new ethers.Interface(TASK_MANAGER_ABI);
+  private options: IndexerOptions;
+  private contract: ethers.Contract | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(store: TaskStore = taskStore, provider?: ethers.JsonRpcProvider) {
+    super();
+    this.store = store;
+    this.provider = provider ?? null;
+    this.options = readOptions();
+  }
+
+  /**
+   * Load persisted state and begin polling the chain
+   */
+  async start(): Promise<void> {
+    const { taskManager } = getContractAddresses();
+    if (!taskManager) {
+      console.warn('TASK_MANAGER_ADDRESS not set, task indexer disabled');
+      return;
+    }
+
+    this.options = readOptions();
+    this.provider = this.provider ?? getProvider();
+    this.contract = new ethers.Contract(taskManager, TASK_MANAGER_ABI, this.provider);
+    await this.store.load();
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Process one batch of blocks. Resolves to true once caught up with the
+   * confirmed head.
+   */
+  async syncOnce(): Promise<boolean> {
+    const provider = this.provider;
+    if (!this.contract || !provider) {
+      throw new Error('Task indexer not started');
+    }
+
+    const forkBlock = await this.findForkBlock();
+    if (forkBlock !== null) {
+      const dropped = this.store.rollbackTo(forkBlock);
+      await this.store.save();
+      console.warn(`Indexer: reorg detected, rolled back to block ${forkBlock} (${dropped.length} events dropped)`);
+      this.emit('reorg', forkBlock, dropped);
+    }
+
+    const head = await provider.getBlockNumber();
+    const target = head - this.options.confirmations;
+    const fromBlock = this.nextBlock();
+    if (fromBlock > target) {
+      return true;
+    }
+
+    const toBlock = Math.min(target, fromBlock + this.options.batchSize - 1);
+    const logs = await provider.getLogs({
+      address: await this.contract.getAddress(),
+      fromBlock,
+      toBlock,
+      topics: [TASK_EVENTS.map((name) => this.iface.getEvent(name)!.topicHash)],
+    });
+
+    const blocks = new Map<number, ethers.Block>();
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const block = await this.getBlock(blocks, log.blockNumber);
+      if (block.hash !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed during sync`);
+      }
+      events.push(await this.decode(log, block));
+    }
+
+    // Blocks deep enough below the head can't be reorganized, so their hashes aren't needed
+    const refs: BlockRef[] = [];
+    for (let number = Math.max(fromBlock, target - REORG_WINDOW + 1); number <= toBlock; number++) {
+      refs.push({ number, hash: (await this.getBlock(blocks, number)).hash! });
+    }
+
+    this.store.commit(events, toBlock, refs);
+    await this.store.save();
+    for (const event of events) {
+      this.emit('event', event);
+    }
+
+    return toBlock >= target;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    let caughtUp = true;
+    try {
+      caughtUp = await this.syncOnce();
+    } catch (error) {
+      console.error('Error syncing task indexer:', error);
+    }
+    if (this.running) {
+      this.schedule(caughtUp ? this.options.pollIntervalMs : 0);
+    }
+  }
+
+  private nextBlock(): number {
+    const last = this.store.getLastProcessedBlock();
+    return last === null ? this.options.startBlock : last + 1;
+  }
+
+  /**
+   * Compare remembered block hashes with the chain, newest first. Returns the
+   * last block that is still canonical, or null when nothing changed.
+   */
+  private async findForkBlock(): Promise<number | null> {
+    const recent = this.store.getRecentBlocks();
+    if (recent.length === 0) return null;
+
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const block = await this.provider!.getBlock(recent[i].number);
+      if (block && block.hash === recent[i].hash) {
+        return i === recent.length - 1 ? null : recent[i].number;
+      }
+    }
+
+    // The whole window was replaced; start over just before it
+    return Math.max(recent[0].number - 1, this.options.startBlock - 1);
+  }
+
+  private async getBlock(cache: Map<number, ethers.Block>, blockNumber: number): Promise<ethers.Block> {
+    let block = cache.get(blockNumber);
+    if (!block) {
+      const fetched = await this.provider!.getBlock(blockNumber);
+      if (!fetched) {
+        throw new Error(`Block ${blockNumber} not found`);
+      }
+      block = fetched;
+      cache.set(blockNumber, block);
+    }
+    return block;
+  }
+
+  private async decode(log: ethers.Log, block: ethers.Block): Promise<IndexedEvent> {
+    const parsed = this.iface.parseLog(log);
+    if (!parsed) {
+      throw new Error(`Unrecognised log at ${log.transactionHash}:${log.index}`);
+    }
+
+    const name = parsed.name as TaskEventName;
+    const taskId = Number(parsed.args.taskId);
+    const args: Record<string, string | boolean> = {};
+
+    switch (name) {
+      case 'TaskCreated': {
+        // The event omits deadline, reputation and urgency; read them as of this block
+        const task = await this.contract!.tasks(taskId, { blockTag: log.blockNumber });
+        args.creator = ethers.getAddress(parsed.args.creator);
+        args.bounty = parsed.args.bounty.toString();
+        args.category = TASK_CATEGORIES[Number(parsed.args.category)] ?? 'Other';
+        args.ipfsHash = parsed.args.ipfsHash;
+        args.deadline = task.deadline.toString();
+        args.requiredReputation = task.requiredReputation.toString();
+        args.isUrgent = task.isUrgent;
+        break;
+      }
+      case 'TaskAssigned':
+        args.worker = ethers.getAddress(parsed.args.worker);
+        break;
+      case 'TaskSubmitted':
+        args.submissionHash = parsed.args.submissionHash;
+        break;
+      case 'TaskCompleted':
+        args.worker = ethers.getAddress(parsed.args.worker);
+        args.payment = parsed.args.payment.toString();
+        break;
+      case 'TaskDisputed':
+        args.disputant = ethers.getAddress(parsed.args.disputant);
+        break;
+      case 'DisputeResolved':
+        args.winner = ethers.getAddress(parsed.args.winner);
+        args.payment = parsed.args.payment.toString();
+        break;
+    }
+
+    return {
+      name,
+      taskId,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      timestamp: block.timestamp,
+      args,
+    };
+  }
+}
+
+export default new TaskIndexer();
@@ -0,0 +1,48 @@
+import { TaskMetadata } from '../shared/documents';
+import { isEncryptedDocument } from '../shared/encryption';
+import ipfsService from './ipfs';
+
+/**
+ * How a task's metadata resolved: private tasks are `encrypted`, and
+ * `unavailable` means the document could not be read or parsed
+ */
+export type MetadataLookup =
+  | { status: 'found'; metadata: TaskMetadata }
+  | { status: 'encrypted' }
+  | { status: 'unavailable' };
+
+/**
+ * Resolves the IPFS document behind a task's ipfsHash, migrated to the
+ * current TaskMetadata schema. Private tasks have no readable metadata and
+ * resolve to null. CIDs are immutable, so successful reads are cached for
+ * the life of the process.
+ */
+export class TaskMetadataService {
+  private cache = new Map<string, TaskMetadata | null>();
+
+  async get(cid: string): Promise<TaskMetadata | null> {
+    const result = await this.lookup(cid);
+    return result.status === 'found' ? result.metadata : null;
+  }
+
+  /**
+   * Like get(), but tells a private task apart from one whose metadata
+   * failed to load
+   */
+  async lookup(cid: string): Promise<MetadataLookup> {
+    if (!this.cache.has(cid)) {
+      try {
+        const document = await ipfsService.getDocument('task', cid);
+        this.cache.set(cid, isEncryptedDocument(document) ? null : (document as TaskMetadata));
+      } catch (error) {
+        console.error(`Error loading metadata for ${cid}:`, error);
+        return { status: 'unavailable' };
+      }
+    }
+
+    const metadata = this.cache.get(cid)!;
+    return metadata ? { status: 'found', metadata } : { status: 'encrypted' };
+  }
+}
+
+export default new TaskMetadataService();
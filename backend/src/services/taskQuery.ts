@@ -0,0 +1,157 @@
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { AppError } from '../middleware/errorHandler';
+import { IndexedTask, TASK_CATEGORIES, TASK_STATUSES } from '../types/task';
+
+// Comma-separated enum list, e.g. ?status=Open,Assigned
+const enumList = <T extends readonly [string, ...string[]]>(values: T) =>
+  z
+    .string()
+    .transform((value) => value.split(',').map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).nonempty());
+
+const address = z
+  .string()
+  .refine((value) => ethers.isAddress(value), { message: 'Invalid address' })
+  .transform((value) => value.toLowerCase());
+
+const tokenAmount = z
+  .string()
+  .regex(/^\d+$/, 'Must be a non-negative integer amount in wei')
+  .transform((value) => BigInt(value));
+
+const timestamp = z.coerce.number().int().nonnegative();
+
+export const TaskQuerySchema = z
+  .object({
+    status: enumList(TASK_STATUSES).optional(),
+    category: enumList(TASK_CATEGORIES).optional(),
+    creator: address.optional(),
+    worker: address.optional(),
+    minBounty: tokenAmount.optional(),
+    maxBounty: tokenAmount.optional(),
+    deadlineAfter: timestamp.optional(),
+    deadlineBefore: timestamp.optional(),
+    isUrgent: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+    maxRequiredReputation: tokenAmount.optional(),
+    sortBy: z.enum(['bounty', 'deadline', 'createdAt']).default('createdAt'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().optional(),
+  })
+  .refine((q) => q.minBounty === undefined || q.maxBounty === undefined || q.minBounty <= q.maxBounty, {
+    message: 'minBounty must not exceed maxBounty',
+    path: ['minBounty'],
+  })
+  .refine(
+    (q) => q.deadlineAfter === undefined || q.deadlineBefore === undefined || q.deadlineAfter <= q.deadlineBefore,
+    { message: 'deadlineAfter must not exceed deadlineBefore', path: ['deadlineAfter'] }
+  );
+
+export type TaskQuery = z.infer<typeof TaskQuerySchema>;
+type SortKey = TaskQuery['sortBy'];
+
+/**
+ * Position after the last task served. It names the ordering it belongs to,
+ * since a position in one ordering means nothing in another.
+ */
+interface Cursor {
+  sortBy: SortKey;
+  order: TaskQuery['order'];
+  value: string;
+  id: number;
+}
+
+export interface TaskPage {
+  tasks: IndexedTask[];
+  nextCursor: string | null;
+}
+
+const sortValue = (task: IndexedTask, sortBy: SortKey): bigint => {
+  switch (sortBy) {
+    case 'bounty':
+      return BigInt(task.bounty);
+    case 'deadline':
+      return BigInt(task.deadline);
+    case 'createdAt':
+      return BigInt(task.createdAt);
+  }
+};
+
+const encodeCursor = (task: IndexedTask, q: TaskQuery): string => {
+  const cursor: Cursor = { sortBy: q.sortBy, order: q.order, value: sortValue(task, q.sortBy).toString(), id: task.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeCursor = (cursor: string, q: TaskQuery): Cursor => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof parsed.value !== 'string' || !/^\d+$/.test(parsed.value) || !Number.isInteger(parsed.id)) {
+      throw new Error('Malformed cursor');
+    }
+    if (parsed.sortBy !== q.sortBy || parsed.order !== q.order) {
+      throw new Error('Cursor belongs to a different ordering');
+    }
+    return parsed;
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+};
+
+/**
+ * Compare two tasks by the sort key, breaking ties on id so the ordering
+ * (and therefore the cursor) is stable
+ */
+const compare = (a: { value: bigint; id: number }, b: { value: bigint; id: number }, order: 'asc' | 'desc') => {
+  const direction = order === 'asc' ? 1 : -1;
+  if (a.value !== b.value) {
+    return (a.value < b.value ? -1 : 1) * direction;
+  }
+  return (a.id - b.id) * direction;
+};
+
+const matches = (task: IndexedTask, q: TaskQuery): boolean => {
+  if (q.status && !q.status.includes(task.status)) return false;
+  if (q.category && !q.category.includes(task.category)) return false;
+  if (q.creator && task.creator.toLowerCase() !== q.creator) return false;
+  if (q.worker && task.worker?.toLowerCase() !== q.worker) return false;
+
+  const bounty = BigInt(task.bounty);
+  if (q.minBounty !== undefined && bounty < q.minBounty) return false;
+  if (q.maxBounty !== undefined && bounty > q.maxBounty) return false;
+
+  if (q.deadlineAfter !== undefined && task.deadline < q.deadlineAfter) return false;
+  if (q.deadlineBefore !== undefined && task.deadline > q.deadlineBefore) return false;
+  if (q.isUrgent !== undefined && task.isUrgent !== q.isUrgent) return false;
+  if (q.maxRequiredReputation !== undefined && BigInt(task.requiredReputation) > q.maxRequiredReputation) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Filter, sort and paginate task records
+ */
+export function queryTasks(tasks: IndexedTask[], q: TaskQuery): TaskPage {
+  const keyed = tasks
+    .filter((task) => matches(task, q))
+    .map((task) => ({ task, value: sortValue(task, q.sortBy), id: task.id }))
+    .sort((a, b) => compare(a, b, q.order));
+
+  let start = 0;
+  if (q.cursor) {
+    const cursor = decodeCursor(q.cursor, q);
+    const after = { value: BigInt(cursor.value), id: cursor.id };
+    start = keyed.findIndex((entry) => compare(entry, after, q.order) > 0);
+    if (start === -1) start = keyed.length;
+  }
+
+  const page = keyed.slice(start, start + q.limit).map((entry) => entry.task);
+  const hasMore = start + q.limit < keyed.length;
+
+  return {
+    tasks: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1], q) : null,
+  };
+}
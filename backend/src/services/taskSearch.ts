@@ -0,0 +1,221 @@
+import { IndexedEvent, IndexedTask } from '../types/task';
+import taskMetadata from './taskMetadata';
+import taskStore from './taskStore';
+import type { TaskIndexer } from './taskIndexer';
+
+const SEARCH_FIELDS = ['title', 'description', 'requirements', 'deliverables'] as const;
+type SearchField = (typeof SEARCH_FIELDS)[number];
+
+// Title matches count for more than body matches
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  description: 1,
+  requirements: 1.5,
+  deliverables: 1.5,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_RADIUS = 80;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+interface SearchDocument {
+  fields: Record<SearchField, string>;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+export interface SearchResult {
+  taskId: number;
+  score: number;
+  highlights: Partial<Record<SearchField, string>>;
+}
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((token) => !STOP_WORDS.has(token));
+
+const toText = (value: unknown): string => {
+  if (Array.isArray(value)) return value.filter((v) => typeof v === 'string').join('\n');
+  return typeof value === 'string' ? value : '';
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * In-memory full-text index over task metadata (title, description,
+ * requirements, deliverables), ranked with field-weighted BM25
+ */
+export class TaskSearchIndex {
+  private documents = new Map<number, SearchDocument>();
+  private postings = new Map<string, Set<number>>();
+  private totalLength = 0;
+
+  /**
+   * Fetch a task's IPFS metadata and add it to the index
+   */
+  async indexTask(task: IndexedTask): Promise<void> {
+    const metadata = await taskMetadata.get(task.ipfsHash);
+    if (!metadata) return;
+
+    const fields = {} as Record<SearchField, string>;
+    for (const field of SEARCH_FIELDS) {
+      fields[field] = toText(metadata[field]);
+    }
+    this.addDocument(task.id, fields);
+  }
+
+  addDocument(taskId: number, fields: Record<SearchField, string>): void {
+    this.removeTask(taskId);
+
+    const termFreqs = new Map<string, number>();
+    let length = 0;
+    for (const field of SEARCH_FIELDS) {
+      for (const token of tokenize(fields[field])) {
+        termFreqs.set(token, (termFreqs.get(token) || 0) + FIELD_WEIGHTS[field]);
+        length += FIELD_WEIGHTS[field];
+      }
+    }
+
+    for (const term of termFreqs.keys()) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(term, posting);
+      }
+      posting.add(taskId);
+    }
+
+    this.documents.set(taskId, { fields, termFreqs, length });
+    this.totalLength += length;
+  }
+
+  removeTask(taskId: number): void {
+    const doc = this.documents.get(taskId);
+    if (!doc) return;
+
+    for (const term of doc.termFreqs.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(taskId);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.totalLength -= doc.length;
+    this.documents.delete(taskId);
+  }
+
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Rank indexed tasks against a free-text query. The last query term also
+   * matches as a prefix so results update while the user is typing.
+   */
+  search(query: string, limit = 20): SearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const avgLength = this.totalLength / this.documents.size;
+    const scores = new Map<number, number>();
+    const matchedTerms = new Map<number, Set<string>>();
+
+    queryTerms.forEach((queryTerm, index) => {
+      const isLast = index === queryTerms.length - 1;
+      const terms = isLast ? this.expandPrefix(queryTerm) : [queryTerm];
+
+      for (const term of terms) {
+        const posting = this.postings.get(term);
+        if (!posting) continue;
+
+        const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+        for (const taskId of posting) {
+          const doc = this.documents.get(taskId)!;
+          const tf = doc.termFreqs.get(term)!;
+          const score = idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / avgLength)));
+          scores.set(taskId, (scores.get(taskId) || 0) + score);
+
+          if (!matchedTerms.has(taskId)) matchedTerms.set(taskId, new Set());
+          matchedTerms.get(taskId)!.add(term);
+        }
+      }
+    });
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, limit)
+      .map(([taskId, score]) => ({
+        taskId,
+        score: Number(score.toFixed(4)),
+        highlights: this.highlight(this.documents.get(taskId)!, matchedTerms.get(taskId)!),
+      }));
+  }
+
+  /**
+   * Index every task already in the store, then follow the indexer for new ones
+   */
+  async attach(indexer: TaskIndexer): Promise<void> {
+    indexer.on('event', (event: IndexedEvent) => {
+      if (event.name !== 'TaskCreated') return;
+      const task = taskStore.getTask(event.taskId);
+      if (task) {
+        this.indexTask(task).catch((error) => console.error(`Error indexing task ${task.id}:`, error));
+      }
+    });
+
+    indexer.on('reorg', (_forkBlock: number, dropped: IndexedEvent[]) => {
+      for (const event of dropped) {
+        if (event.name === 'TaskCreated') {
+          this.removeTask(event.taskId);
+        }
+      }
+    });
+
+    for (const task of taskStore.getTasks()) {
+      await this.indexTask(task);
+    }
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    if (prefix.length < 3) return [prefix];
+    return Array.from(this.postings.keys()).filter((term) => term.startsWith(prefix));
+  }
+
+  private highlight(doc: SearchDocument, terms: Set<string>): Partial<Record<SearchField, string>> {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(${Array.from(terms).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+      'giu'
+    );
+    const highlights: Partial<Record<SearchField, string>> = {};
+
+    for (const field of SEARCH_FIELDS) {
+      const text = doc.fields[field];
+      pattern.lastIndex = 0;
+      const first = pattern.exec(text);
+      if (!first) continue;
+
+      const start = Math.max(0, first.index - SNIPPET_RADIUS);
+      const end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS);
+      const window = text.slice(start, end);
+
+      const marked = window
+        .split(pattern)
+        .map((part, i) => (i % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+        .join('');
+
+      highlights[field] = `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+    }
+
+    return highlights;
+  }
+}
+
+export default new TaskSearchIndex();
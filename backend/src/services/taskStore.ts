@@ -0,0 +1,240 @@
+import path from 'path';
+import { IndexedEvent, IndexedTask, TaskCategory } from '../types/task';
+import {
+  appendJSONLines,
+  getDataDir,
+  readJSONFile,
+  readJSONLines,
+  writeJSONFile,
+  writeJSONLines,
+} from '../utils/jsonFile';
+
+// How many of the newest blocks have their hashes remembered for reorg detection
+export const REORG_WINDOW = 256;
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface TaskStoreSnapshot {
+  lastProcessedBlock: number | null;
+  recentBlocks: BlockRef[];
+  /** How many events of the log belong to this snapshot */
+  eventCount: number;
+  /** Older snapshots carried the whole event log */
+  events?: IndexedEvent[];
+}
+
+/**
+ * Local store of TaskManager events and the task records projected from them.
+ *
+ * Events are the source of truth: on a reorg the affected events are dropped
+ * and the task records are rebuilt from what remains. They are persisted as
+ * an append-only log next to a small snapshot of the sync position, so a
+ * batch only writes its own events.
+ */
+export class TaskStore {
+  private events: IndexedEvent[] = [];
+  private tasks = new Map<number, IndexedTask>();
+  private recentBlocks: BlockRef[] = [];
+  private lastProcessedBlock: number | null = null;
+  private version = 0;
+  private filePath: string;
+  private logPath: string;
+  // Events already in the log, and whether it must be rewritten rather than appended to
+  private loggedEvents = 0;
+  private rewriteLog = true;
+
+  /**
+   * @param filePath Snapshot file; the event log is written alongside it
+   */
+  constructor(filePath = path.join(getDataDir(), 'tasks.json')) {
+    this.filePath = filePath;
+    this.logPath = filePath.replace(/\.json$/, '') + '.events.jsonl';
+  }
+
+  /**
+   * Load the persisted snapshot and event log, if any. Events logged after
+   * the snapshot was written belong to a batch that never finished, and are
+   * dropped.
+   */
+  async load(): Promise<void> {
+    const snapshot = await readJSONFile<TaskStoreSnapshot>(this.filePath);
+    if (!snapshot) return;
+
+    let events = snapshot.events;
+    if (!events) {
+      events = (await readJSONLines<IndexedEvent>(this.logPath)) ?? [];
+      if (events.length < snapshot.eventCount) {
+        throw new Error(`Task event log ${this.logPath} is missing events`);
+      }
+      this.loggedEvents = events.length;
+    }
+
+    this.lastProcessedBlock = snapshot.lastProcessedBlock;
+    this.recentBlocks = snapshot.recentBlocks;
+    this.events = events.slice(0, snapshot.eventCount ?? events.length);
+    // The log may end in a partial line, so start it afresh on the first save
+    this.rewriteLog = true;
+    this.version++;
+    this.rebuild();
+  }
+
+  /**
+   * Persist the current state so the indexer can resume after a restart.
+   * The log is written before the snapshot that counts its events, except
+   * when a rollback shortened it: then the snapshot goes first. Either way a
+   * crash in between leaves extra events in the log, which load() ignores.
+   */
+  async save(): Promise<void> {
+    const snapshot: TaskStoreSnapshot = {
+      lastProcessedBlock: this.lastProcessedBlock,
+      recentBlocks: this.recentBlocks,
+      eventCount: this.events.length,
+    };
+    if (!this.rewriteLog) {
+      await appendJSONLines(this.logPath, this.events.slice(this.loggedEvents));
+      await writeJSONFile(this.filePath, snapshot);
+    } else if (this.events.length < this.loggedEvents) {
+      await writeJSONFile(this.filePath, snapshot);
+      await writeJSONLines(this.logPath, this.events);
+    } else {
+      await writeJSONLines(this.logPath, this.events);
+      await writeJSONFile(this.filePath, snapshot);
+    }
+    this.rewriteLog = false;
+    this.loggedEvents = this.events.length;
+  }
+
+  getLastProcessedBlock(): number | null {
+    return this.lastProcessedBlock;
+  }
+
+  /**
+   * Incremented whenever the event log changes, for callers that memoize derived data
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  getRecentBlocks(): BlockRef[] {
+    return [...this.recentBlocks];
+  }
+
+  /**
+   * Append a processed block range, its events and the hashes of its blocks
+   * that are recent enough to be reorganized
+   */
+  commit(events: IndexedEvent[], toBlock: number, blocks: BlockRef[]): void {
+    for (const event of events) {
+      this.events.push(event);
+      this.apply(event);
+    }
+
+    this.lastProcessedBlock = toBlock;
+    this.version++;
+    this.recentBlocks.push(...blocks);
+    if (this.recentBlocks.length > REORG_WINDOW) {
+      this.recentBlocks = this.recentBlocks.slice(-REORG_WINDOW);
+    }
+  }
+
+  /**
+   * Drop everything after `blockNumber` and rebuild the task records
+   */
+  rollbackTo(blockNumber: number): IndexedEvent[] {
+    const dropped = this.events.filter((e) => e.blockNumber > blockNumber);
+    this.events = this.events.filter((e) => e.blockNumber <= blockNumber);
+    this.rewriteLog ||= dropped.length > 0;
+    this.recentBlocks = this.recentBlocks.filter((b) => b.number <= blockNumber);
+    this.lastProcessedBlock = blockNumber;
+    this.version++;
+    this.rebuild();
+    return dropped;
+  }
+
+  getTask(id: number): IndexedTask | undefined {
+    return this.tasks.get(id);
+  }
+
+  getTasks(): IndexedTask[] {
+    return Array.from(this.tasks.values());
+  }
+
+  getEvents(): IndexedEvent[] {
+    return this.events;
+  }
+
+  private rebuild(): void {
+    this.tasks.clear();
+    for (const event of this.events) {
+      this.apply(event);
+    }
+  }
+
+  private apply(event: IndexedEvent): void {
+    const { args } = event;
+
+    if (event.name === 'TaskCreated') {
+      this.tasks.set(event.taskId, {
+        id: event.taskId,
+        creator: String(args.creator),
+        worker: null,
+        ipfsHash: String(args.ipfsHash),
+        bounty: String(args.bounty),
+        deadline: Number(args.deadline),
+        status: 'Open',
+        category: args.category as TaskCategory,
+        createdAt: event.timestamp,
+        completedAt: null,
+        submissionHash: null,
+        requiredReputation: String(args.requiredReputation),
+        isUrgent: Boolean(args.isUrgent),
+        disputedBy: null,
+        disputeWinner: null,
+        payment: null,
+        updatedAtBlock: event.blockNumber,
+      });
+      return;
+    }
+
+    const task = this.tasks.get(event.taskId);
+    if (!task) {
+      console.warn(`Indexer: ${event.name} for unknown task ${event.taskId}`);
+      return;
+    }
+
+    switch (event.name) {
+      case 'TaskAssigned':
+        task.worker = String(args.worker);
+        task.status = 'Assigned';
+        break;
+      case 'TaskSubmitted':
+        task.submissionHash = String(args.submissionHash);
+        task.status = 'Submitted';
+        break;
+      case 'TaskCompleted':
+        task.status = 'Completed';
+        task.completedAt = event.timestamp;
+        task.payment = String(args.payment);
+        break;
+      case 'TaskCancelled':
+        task.status = 'Cancelled';
+        break;
+      case 'TaskDisputed':
+        task.status = 'Disputed';
+        task.disputedBy = String(args.disputant);
+        break;
+      case 'DisputeResolved':
+        task.status = 'Completed';
+        task.completedAt = event.timestamp;
+        task.disputeWinner = String(args.winner);
+        task.payment = String(args.payment);
+        break;
+    }
+    task.updatedAtBlock = event.blockNumber;
+  }
+}
+
+export default new TaskStore();
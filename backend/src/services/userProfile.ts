@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import { getContractAddresses, getProvider } from '../config/blockchain';
+import { GAMIFICATION_ABI, REPUTATION_NFT_ABI, TASK_MANAGER_ABI } from '../contracts/abis';
+import { AppError } from '../middleware/errorHandler';
+import { IndexedEvent, IndexedTask } from '../types/task';
+import { ACHIEVEMENT_IDS, ReputationSummary, UnlockedAchievement, UserProfile } from '../types/user';
+import { readReputation } from './reputation';
+import taskStore from './taskStore';
+import type { TaskIndexer } from './taskIndexer';
+
+interface CacheEntry {
+  profile: UserProfile;
+  expiresAt: number;
+}
+
+/**
+ * Aggregates a user's on-chain reputation, gamification and task data.
+ * Profiles are cached and dropped when the indexer sees an event that
+ * touches the user; the TTL covers Gamification changes the indexer does
+ * not follow.
+ */
+export class UserProfileService {
+  private cache = new Map<string, CacheEntry>();
+
+  async getProfile(address: string): Promise<UserProfile> {
+    if (!ethers.isAddress(address)) {
+      throw new AppError('Invalid address', 400);
+    }
+
+    const key = address.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.profile;
+    }
+
+    const profile = await this.load(ethers.getAddress(address));
+    if (!this.isKnown(profile)) {
+      throw new AppError('User not found', 404);
+    }
+
+    const ttl = parseInt(process.env.PROFILE_CACHE_TTL_MS || '60000');
+    this.cache.set(key, { profile, expiresAt: Date.now() + ttl });
+    return profile;
+  }
+
+  invalidate(address: string | null | undefined): void {
+    if (address) {
+      this.cache.delete(address.toLowerCase());
+    }
+  }
+
+  /**
+   * Drop cached profiles for the creator and worker of tasks the indexer touches
+   */
+  attach(indexer: TaskIndexer): void {
+    indexer.on('event', (event: IndexedEvent) => {
+      const task = taskStore.getTask(event.taskId);
+      this.invalidate(task?.creator);
+      this.invalidate(task?.worker);
+      this.invalidate(event.args.worker as string | undefined);
+    });
+
+    indexer.on('reorg', () => this.cache.clear());
+  }
+
+  private isKnown(profile: UserProfile): boolean {
+    return (
+      profile.reputation !== null ||
+      profile.createdTaskIds.length > 0 ||
+      profile.assignedTaskIds.length > 0 ||
+      (profile.referrals !== null &&
+        (profile.referrals.referrer !== null || profile.referrals.referees.length > 0)) ||
+      (profile.streak !== null && profile.streak.longestStreak > 0)
+    );
+  }
+
+  private async load(address: string): Promise<UserProfile> {
+    const [reputation, streak, referrals, taskIds] = await Promise.all([
+      this.loadReputation(address),
+      this.loadStreak(address),
+      this.loadReferrals(address),
+      this.loadTaskIds(address),
+    ]);
+
+    const achievements = reputation ? await this.loadAchievements(address) : [];
+    const resolve = (ids: number[]) =>
+      ids.map((id) => taskStore.getTask(id)).filter((task): task is IndexedTask => task !== undefined);
+
+    return {
+      address,
+      reputation,
+      streak,
+      referrals,
+      achievements,
+      createdTaskIds: taskIds.created,
+      assignedTaskIds: taskIds.assigned,
+      createdTasks: resolve(taskIds.created),
+      assignedTasks: resolve(taskIds.assigned),
+    };
+  }
+
+  private reputationContract(): ethers.Contract | null {
+    const { reputationNFT } = getContractAddresses();
+    return reputationNFT ? new ethers.Contract(reputationNFT, REPUTATION_NFT_ABI, getProvider()) : null;
+  }
+
+  private async loadReputation(address: string): Promise<ReputationSummary | null> {
+    const contract = this.reputationContract();
+    return contract ? readReputation(contract, address) : null;
+  }
+
+  private async loadAchievements(address: string): Promise<UnlockedAchievement[]> {
+    const contract = this.reputationContract();
+    if (!contract) return [];
+
+    const unlocked: UnlockedAchievement[] = [];
+    for (const id of ACHIEVEMENT_IDS) {
+      const achievementId = ethers.encodeBytes32String(id);
+      if (await contract.hasAchievement(address, achievementId)) {
+        const achievement = await contract.achievements(achievementId);
+        unlocked.push({ id, name: achievement.name, description: achievement.description });
+      }
+    }
+    return unlocked;
+  }
+
+  private async loadStreak(address: string): Promise<UserProfile['streak']> {
+    const { gamification } = getContractAddresses();
+    if (!gamification) return null;
+
+    const contract = new ethers.Contract(gamification, GAMIFICATION_ABI, getProvider());
+    const streak = await contract.userStreaks(address);
+    return {
+      currentStreak: Number(streak.currentStreak),
+      longestStreak: Number(streak.longestStreak),
+      lastTaskDate: Number(streak.lastTaskDate),
+      totalBonusEarned: streak.totalBonusEarned.toString(),
+    };
+  }
+
+  private async loadReferrals(address: string): Promise<UserProfile['referrals']> {
+    const { gamification } = getContractAddresses();
+    if (!gamification) return null;
+
+    const contract = new ethers.Contract(gamification, GAMIFICATION_ABI, getProvider());
+    const [referral, referees] = await Promise.all([
+      contract.referrals(address),
+      contract.getUserReferrals(address) as Promise<string[]>,
+    ]);
+    return {
+      referrer: referral.referrer === ethers.ZeroAddress ? null : referral.referrer,
+      totalReferred: Number(referral.totalReferred),
+      referralEarnings: referral.referralEarnings.toString(),
+      referees: [...referees],
+    };
+  }
+
+  private async loadTaskIds(address: string): Promise<{ created: number[]; assigned: number[] }> {
+    const { taskManager } = getContractAddresses();
+    if (!taskManager) return { created: [], assigned: [] };
+
+    const contract = new ethers.Contract(taskManager, TASK_MANAGER_ABI, getProvider());
+    const [created, assigned]: [bigint[], bigint[]] = await Promise.all([
+      contract.getUserCreatedTasks(address),
+      contract.getUserAssignedTasks(address),
+    ]);
+    return { created: created.map(Number), assigned: assigned.map(Number) };
+  }
+}
+
+export default new UserProfileService();
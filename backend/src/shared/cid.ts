@@ -0,0 +1,31 @@
+import { CID } from 'multiformats/cid';
+
+/*
+ * CID parsing shared with the frontend (`@shared/cid`). Accepts CIDv0
+ * (`Qm…`, base58btc) and CIDv1 in base32 (`b…`) or base58btc (`z…`), with
+ * any codec and hash; the multihash is decoded, not just pattern-matched.
+ */
+
+// Multicodec and multihash codes
+export const RAW_CODEC = 0x55;
+export const SHA2_256 = 0x12;
+
+/**
+ * Parse a CID string, or null when it is not a valid CID
+ */
+export const parseCID = (value: string): CID | null => {
+  if (typeof value !== 'string' || value.length > 512) return null;
+  try {
+    return CID.parse(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+export const isValidCID = (value: string): boolean => parseCID(value) !== null;
+
+/**
+ * The same content can be named by a CIDv0 and a CIDv1; this is the CIDv1
+ * base32 form, for use as a cache key
+ */
+export const normalizeCID = (cid: CID): string => cid.toV1().toString();
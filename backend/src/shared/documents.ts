@@ -0,0 +1,174 @@
+import { z } from 'zod';
+
+/*
+ * Schemas for the JSON documents stored on IPFS: task metadata (behind
+ * Task.ipfsHash), submissions (submissionHash) and dispute evidence
+ * (evidenceHash). The frontend imports this file too (`@shared/documents`),
+ * so it must depend on zod only.
+ *
+ * Documents carry a schemaVersion. Writers always produce the current
+ * version; readers migrate older ones step by step. Documents written before
+ * versioning have no schemaVersion and count as version 0.
+ */
+
+const AddressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Invalid address');
+const ItemListSchema = z.array(z.string().trim().min(1).max(1000)).max(50);
+const LinkListSchema = z.array(z.string().url().max(2000)).max(20);
+
+/**
+ * A file uploaded through /api/ipfs/files
+ */
+export const FileReferenceSchema = z.object({
+  cid: z.string().min(1).max(200),
+  name: z.string().min(1).max(255),
+  mimeType: z.string().min(1).max(100),
+  size: z.number().int().nonnegative(),
+});
+
+export const TaskMetadataSchema = z.object({
+  schemaVersion: z.literal(1),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(20000),
+  requirements: ItemListSchema.default([]),
+  deliverables: ItemListSchema.default([]),
+  /** How the creator will judge the submission */
+  acceptanceCriteria: ItemListSchema.default([]),
+  skills: z.array(z.string().trim().min(1).max(100)).max(30).default([]),
+  attachments: z.array(FileReferenceSchema).max(20).default([]),
+  category: z.string().max(50).optional(),
+  creator: AddressSchema.optional(),
+  /** ISO 8601 */
+  createdAt: z.string().datetime().optional(),
+});
+
+export const SubmissionDocumentSchema = z.object({
+  schemaVersion: z.literal(1),
+  taskId: z.number().int().nonnegative().optional(),
+  worker: AddressSchema.optional(),
+  /** What was done and how it meets the requirements */
+  summary: z.string().trim().min(1).max(20000),
+  links: LinkListSchema.default([]),
+  attachments: z.array(FileReferenceSchema).max(20).default([]),
+  submittedAt: z.string().datetime().optional(),
+});
+
+export const DisputeEvidenceSchema = z.object({
+  schemaVersion: z.literal(1),
+  taskId: z.number().int().nonnegative().optional(),
+  raisedBy: AddressSchema.optional(),
+  /** The disputing party's account of what went wrong */
+  statement: z.string().trim().min(1).max(20000),
+  links: LinkListSchema.default([]),
+  attachments: z.array(FileReferenceSchema).max(20).default([]),
+  createdAt: z.string().datetime().optional(),
+});
+
+export type FileReference = z.infer<typeof FileReferenceSchema>;
+export type TaskMetadata = z.infer<typeof TaskMetadataSchema>;
+export type SubmissionDocument = z.infer<typeof SubmissionDocumentSchema>;
+export type DisputeEvidence = z.infer<typeof DisputeEvidenceSchema>;
+
+// Unversioned documents are not always objects, so a migration takes whatever was stored
+type Migration = (document: unknown) => Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Unversioned documents held lists as arrays or newline-separated text
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : [])
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+// Unversioned submissions and evidence were often plain text or free-form JSON
+const bodyText = (document: unknown, fields: string[]): string =>
+  typeof document === 'string'
+    ? document
+    : isObject(document)
+      ? fields
+          .map((field) => document[field])
+          .find((value): value is string => typeof value === 'string' && value.trim() !== '') ??
+        JSON.stringify(document, null, 2)
+      : String(document ?? '');
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const TASK_MIGRATIONS: Record<number, Migration> = {
+  0: (document) => {
+    const fields = isObject(document) ? document : {};
+    return {
+      schemaVersion: 1,
+      title: optionalString(fields.title) ?? '',
+      description: optionalString(fields.description) ?? '',
+      requirements: toList(fields.requirements),
+      deliverables: toList(fields.deliverables),
+      acceptanceCriteria: [],
+      skills: toList(fields.skills),
+      attachments: [],
+      category: optionalString(fields.category),
+      creator: optionalString(fields.creator),
+      createdAt: optionalString(fields.createdAt),
+    };
+  },
+};
+
+const SUBMISSION_MIGRATIONS: Record<number, Migration> = {
+  0: (document) => ({
+    schemaVersion: 1,
+    summary: bodyText(document, ['summary', 'description', 'notes', 'text']),
+    links: toList(isObject(document) ? document.links ?? document.urls : []),
+    attachments: [],
+  }),
+};
+
+const EVIDENCE_MIGRATIONS: Record<number, Migration> = {
+  0: (document) => ({
+    schemaVersion: 1,
+    statement: bodyText(document, ['statement', 'reason', 'description', 'text']),
+    links: toList(isObject(document) ? document.links ?? document.urls : []),
+    attachments: [],
+  }),
+};
+
+export const DOCUMENT_FORMATS = {
+  task: { schema: TaskMetadataSchema, version: 1, migrations: TASK_MIGRATIONS },
+  submission: { schema: SubmissionDocumentSchema, version: 1, migrations: SUBMISSION_MIGRATIONS },
+  evidence: { schema: DisputeEvidenceSchema, version: 1, migrations: EVIDENCE_MIGRATIONS },
+} as const;
+
+export type DocumentKind = keyof typeof DOCUMENT_FORMATS;
+export type DocumentOf<K extends DocumentKind> = z.infer<(typeof DOCUMENT_FORMATS)[K]['schema']>;
+
+export const DOCUMENT_KINDS = Object.keys(DOCUMENT_FORMATS) as [DocumentKind, ...DocumentKind[]];
+
+/**
+ * Bring a stored document of any known version up to the current schema
+ * and validate it
+ */
+export const parseDocument = <K extends DocumentKind>(
+  kind: K,
+  raw: unknown
+): z.SafeParseReturnType<unknown, DocumentOf<K>> => {
+  const format = DOCUMENT_FORMATS[kind];
+  let version = isObject(raw) && typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > format.version) {
+    const error = new z.ZodError([
+      {
+        code: z.ZodIssueCode.custom,
+        path: ['schemaVersion'],
+        message: `Schema version ${version} is newer than the supported version ${format.version}`,
+      },
+    ]);
+    return { success: false, error };
+  }
+
+  let document = raw;
+  for (; version < format.version; version++) {
+    document = format.migrations[version](document);
+  }
+  return format.schema.safeParse(document) as z.SafeParseReturnType<unknown, DocumentOf<K>>;
+};
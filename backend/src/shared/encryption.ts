@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { DOCUMENT_KINDS } from './documents';
+
+/*
+ * End-to-end encrypted documents. The client encrypts a document with a
+ * random AES-256-GCM content key and wraps that key for each reader with
+ * ECIES over secp256k1: an ephemeral key pair, ECDH with the reader's
+ * encryption public key, HKDF-SHA256, then AES-256-GCM. Readers' key pairs
+ * are derived from a wallet signature, so the backend only ever stores
+ * ciphertext, wrapped keys and public keys.
+ */
+
+const AddressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Invalid address');
+const Base64Schema = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Invalid base64');
+// 96-bit GCM nonce
+const IvSchema = Base64Schema(16).length(16, 'Invalid IV');
+
+/**
+ * Compressed secp256k1 public key
+ */
+export const EncryptionPublicKeySchema = z
+  .string()
+  .regex(/^0x0[23][0-9a-fA-F]{64}$/, 'Expected a compressed secp256k1 public key');
+
+/**
+ * A document's content key, encrypted for one reader
+ */
+export const WrappedKeySchema = z.object({
+  recipient: AddressSchema.transform((address) => address.toLowerCase()),
+  algorithm: z.literal('ecies-secp256k1-hkdf-sha256-aes-256-gcm'),
+  ephemeralPublicKey: EncryptionPublicKeySchema,
+  iv: IvSchema,
+  /** 32-byte key plus 16-byte tag */
+  wrappedKey: Base64Schema(64).length(64, 'Invalid wrapped key'),
+});
+
+/**
+ * Stored on IPFS in place of a plain document. `keys` holds the readers known
+ * when it was written; more can be granted later through the task's key
+ * grants.
+ */
+export const EncryptedDocumentSchema = z.object({
+  schemaVersion: z.literal(1),
+  kind: z.enum(DOCUMENT_KINDS),
+  algorithm: z.literal('aes-256-gcm'),
+  iv: IvSchema,
+  ciphertext: Base64Schema(1_000_000).min(1),
+  keys: z.array(WrappedKeySchema).min(1).max(10),
+});
+
+export type WrappedKey = z.infer<typeof WrappedKeySchema>;
+export type EncryptedDocument = z.infer<typeof EncryptedDocumentSchema>;
+
+/**
+ * Whether a stored document is an encrypted envelope rather than plain JSON.
+ * Only the shape is checked; validate with EncryptedDocumentSchema.
+ */
+export const isEncryptedDocument = (document: unknown): boolean =>
+  typeof document === 'object' && document !== null && 'ciphertext' in document;
@@ -0,0 +1,26 @@
+// Mirrors OpenZeppelin IGovernor.ProposalState (same ordinal order)
+export const PROPOSAL_STATES = [
+  'Pending',
+  'Active',
+  'Canceled',
+  'Defeated',
+  'Succeeded',
+  'Queued',
+  'Expired',
+  'Executed',
+] as const;
+export type ProposalState = (typeof PROPOSAL_STATES)[number];
+
+export interface DisputeProposal {
+  proposalId: string;
+  taskId: number;
+  creator: string;
+  worker: string;
+  evidenceHash: string;
+  resolved: boolean;
+  favorCreator: boolean;
+  /** Governor state, null when the DAO does not know the proposal */
+  state: ProposalState | null;
+  /** Block of the DisputeProposalCreated event, when it has been scanned */
+  blockNumber: number | null;
+}
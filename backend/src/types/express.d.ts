@@ -0,0 +1,11 @@
+import { AuthSession } from '../services/auth';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthSession;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,62 @@
+// Mirrors TaskManager.TaskStatus and TaskManager.TaskCategory (same ordinal order)
+export const TASK_STATUSES = ['Open', 'Assigned', 'Submitted', 'Completed', 'Disputed', 'Cancelled'] as const;
+export const TASK_CATEGORIES = [
+  'Development',
+  'Design',
+  'Writing',
+  'Marketing',
+  'Research',
+  'DataEntry',
+  'Testing',
+  'Other',
+] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+export type TaskCategory = (typeof TASK_CATEGORIES)[number];
+
+export type TaskEventName =
+  | 'TaskCreated'
+  | 'TaskAssigned'
+  | 'TaskSubmitted'
+  | 'TaskCompleted'
+  | 'TaskCancelled'
+  | 'TaskDisputed'
+  | 'DisputeResolved';
+
+/**
+ * A decoded TaskManager log. Amounts are decimal strings so the record
+ * survives a JSON round trip.
+ */
+export interface IndexedEvent {
+  name: TaskEventName;
+  taskId: number;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  args: Record<string, string | boolean>;
+}
+
+/**
+ * Task record projected from indexed events
+ */
+export interface IndexedTask {
+  id: number;
+  creator: string;
+  worker: string | null;
+  ipfsHash: string;
+  bounty: string;
+  deadline: number;
+  status: TaskStatus;
+  category: TaskCategory;
+  createdAt: number;
+  completedAt: number | null;
+  submissionHash: string | null;
+  requiredReputation: string;
+  isUrgent: boolean;
+  disputedBy: string | null;
+  disputeWinner: string | null;
+  payment: string | null;
+  updatedAtBlock: number;
+}
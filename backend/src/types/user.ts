@@ -0,0 +1,47 @@
+import { IndexedTask } from './task';
+
+// Mirrors ReputationNFT.ReputationTier (same ordinal order)
+export const REPUTATION_TIERS = ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond'] as const;
+export type ReputationTier = (typeof REPUTATION_TIERS)[number];
+
+// Achievements created in the ReputationNFT constructor
+export const ACHIEVEMENT_IDS = ['FIRST_TASK', 'TASK_VETERAN', 'TASK_MASTER', 'BIG_EARNER', 'DISPUTE_CHAMPION'] as const;
+
+export interface ReputationSummary {
+  tokenId: number;
+  score: string;
+  tier: ReputationTier;
+  tasksCompleted: string;
+  tasksCreated: string;
+  totalEarned: string;
+  disputesWon: string;
+  disputesLost: string;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface UserProfile {
+  address: string;
+  reputation: ReputationSummary | null;
+  streak: {
+    currentStreak: number;
+    longestStreak: number;
+    lastTaskDate: number;
+    totalBonusEarned: string;
+  } | null;
+  referrals: {
+    referrer: string | null;
+    totalReferred: number;
+    referralEarnings: string;
+    referees: string[];
+  } | null;
+  achievements: UnlockedAchievement[];
+  createdTaskIds: number[];
+  assignedTaskIds: number[];
+  createdTasks: IndexedTask[];
+  assignedTasks: IndexedTask[];
+}
@@ -0,0 +1,44 @@
+import { AppError } from '../middleware/errorHandler';
+
+export const readLimitError = (maxBytes: number) =>
+  new AppError(`Content exceeds the ${maxBytes}-byte read limit`, 413);
+
+// Settle with the promise, or reject as soon as the signal aborts
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+/**
+ * Read a stream into memory, failing with a 413 once it passes `maxBytes`
+ * and with the signal's reason if it aborts first
+ */
+export async function collectBytes(
+  source: AsyncIterable<Uint8Array>,
+  maxBytes: number,
+  signal: AbortSignal
+): Promise<Buffer> {
+  const iterator = source[Symbol.asyncIterator]();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await abortable(iterator.next(), signal);
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        throw readLimitError(maxBytes);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    // Let the source release its connection or file handle
+    iterator.return?.().catch(() => undefined);
+    throw error;
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,79 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Read a JSON file, returning null when it does not exist yet
+ */
+export async function readJSONFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename)
+ */
+export async function writeJSONFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data));
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Read a file of newline-delimited JSON values, returning null when it does
+ * not exist yet. A final line cut short by an interrupted append is skipped.
+ */
+export async function readJSONLines<T>(filePath: string): Promise<T[] | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const lines = raw.split('\n').filter((line) => line.trim() !== '');
+  const values: T[] = [];
+  for (const [index, line] of lines.entries()) {
+    try {
+      values.push(JSON.parse(line) as T);
+    } catch (error) {
+      if (index === lines.length - 1 && !raw.endsWith('\n')) break;
+      throw error;
+    }
+  }
+  return values;
+}
+
+/**
+ * Append values to a newline-delimited JSON file
+ */
+export async function appendJSONLines(filePath: string, values: unknown[]): Promise<void> {
+  if (values.length === 0) return;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, values.map((value) => `${JSON.stringify(value)}\n`).join(''));
+}
+
+/**
+ * Replace a newline-delimited JSON file atomically
+ */
+export async function writeJSONLines(filePath: string, values: unknown[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, values.map((value) => `${JSON.stringify(value)}\n`).join(''));
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Directory for the backend's local data files
+ */
+export const getDataDir = (): string => process.env.DATA_DIR || path.resolve(process.cwd(), 'data');
@@ -0,0 +1,107 @@
+/**
+ * Minimal EIP-4361 (Sign-In with Ethereum) message parser
+ * https://eips.ethereum.org/EIPS/eip-4361
+ */
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELDS: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+export function parseSiweMessage(raw: string): SiweMessage {
+  const lines = raw.replace(/\r\n/g, '\n').split('\n');
+
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Missing SIWE header');
+  }
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+  const address = lines[1]?.trim();
+  if (!domain || !/^0x[a-fA-F0-9]{40}$/.test(address || '')) {
+    throw new Error('Invalid domain or address');
+  }
+
+  const uriIndex = lines.findIndex((line) => line.startsWith('URI: '));
+  if (uriIndex === -1) {
+    throw new Error('Missing URI');
+  }
+  const statement = lines.slice(2, uriIndex).join('\n').trim() || undefined;
+
+  const fields: Record<string, string> = {};
+  const resources: string[] = [];
+  let inResources = false;
+
+  for (const line of lines.slice(uriIndex)) {
+    if (inResources) {
+      if (line.startsWith('- ')) {
+        resources.push(line.slice(2));
+        continue;
+      }
+      throw new Error('Malformed resources list');
+    }
+    if (line === 'Resources:') {
+      inResources = true;
+      continue;
+    }
+    if (line === '') continue;
+
+    const separator = line.indexOf(': ');
+    const label = line.slice(0, separator);
+    const key = FIELDS[label];
+    if (separator === -1 || !key) {
+      throw new Error(`Unexpected line: ${line}`);
+    }
+    fields[key] = line.slice(separator + 2);
+  }
+
+  for (const required of ['uri', 'version', 'chainId', 'nonce', 'issuedAt']) {
+    if (!fields[required]) {
+      throw new Error(`Missing ${required}`);
+    }
+  }
+
+  const chainId = Number(fields.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error('Invalid chain ID');
+  }
+  if (!/^[a-zA-Z0-9]{8,}$/.test(fields.nonce)) {
+    throw new Error('Invalid nonce');
+  }
+
+  return {
+    domain,
+    address: address!,
+    statement,
+    uri: fields.uri,
+    version: fields.version,
+    chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  };
+}
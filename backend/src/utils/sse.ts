@@ -0,0 +1,42 @@
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  /** Aborted when the client disconnects before close() */
+  signal: AbortSignal;
+}
+
+/**
+ * Switch a response to Server-Sent Events. Each write is flushed through the
+ * compression middleware so events reach the client immediately.
+ */
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx)
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    send(event, data) {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      res.flush();
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    },
+    signal: controller.signal,
+  };
+}
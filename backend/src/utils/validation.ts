@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { ValidationError } from '../middleware/errorHandler';
+
+/**
+ * Parse request input against a zod schema, throwing a 400 ValidationError
+ * that lists every failing field
+ */
+export function parseRequest<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  message = 'Invalid request parameters'
+): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    throw new ValidationError(message, issues);
+  }
+  return result.data;
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIBudgetError } from '../src/middleware/errorHandler';
+import { AIUsageService } from '../src/services/aiUsage';
+import { ClaudeAIService } from '../src/services/claudeAI';
+import { FixtureProvider } from '../src/services/llm';
+
+const ALICE = '0x00000000000000000000000000000000000000AA';
+const BOB = '0x00000000000000000000000000000000000000bb';
+
+describe('AI usage accounting', () => {
+  let dir: string;
+  let filePath: string;
+  let provider: FixtureProvider;
+  let usage: AIUsageService;
+  let ai: ClaudeAIService;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-usage-'));
+    filePath = path.join(dir, 'ai-usage.json');
+    provider = new FixtureProvider();
+    usage = new AIUsageService(filePath);
+    await usage.load();
+    ai = new ClaudeAIService(provider, usage);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.AI_DAILY_TOKEN_BUDGET;
+    delete process.env.AI_TOKEN_BUDGET_OVERRIDES;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records model, tokens and wallet for each call', async () => {
+    await ai.categorizeTask('Build a React dashboard', { wallet: ALICE });
+
+    const { totals, groups } = usage.report({ groupBy: 'wallet' });
+    expect(totals.calls).toBe(1);
+    expect(totals.fallbacks).toBe(0);
+    expect(totals.inputTokens).toBeGreaterThan(0);
+    expect(totals.outputTokens).toBeGreaterThan(0);
+    expect(groups.map((g) => g.key)).toEqual([ALICE.toLowerCase()]);
+    expect(usage.report({ groupBy: 'model' }).groups[0].key).toMatch(/^fixture:/);
+  });
+
+  it('bills failed repair attempts to the fallback call', async () => {
+    provider.setResponse('estimateTaskComplexity', 'not json');
+
+    const result = await ai.estimateTaskComplexity('Write a blog post', '1200 words', { wallet: ALICE });
+
+    expect(result.source).toBe('fallback');
+    const { totals } = usage.report();
+    expect(totals.fallbacks).toBe(1);
+    expect(totals.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('rejects calls once the daily budget is used instead of falling back', async () => {
+    process.env.AI_DAILY_TOKEN_BUDGET = '10';
+    await ai.categorizeTask('Build a React dashboard', { wallet: ALICE });
+
+    const complete = jest.spyOn(provider, 'complete');
+    const error = await ai.categorizeTask('Design a logo', { wallet: ALICE }).catch((e) => e);
+    expect(error).toBeInstanceOf(AIBudgetError);
+    expect(error).toMatchObject({ statusCode: 429, budget: 10 });
+    expect(complete).not.toHaveBeenCalled();
+
+    // Other wallets and background work are unaffected
+    await expect(ai.categorizeTask('Design a logo', { wallet: BOB })).resolves.toMatchObject({ source: 'fixture' });
+    await expect(ai.categorizeTask('Design a logo')).resolves.toMatchObject({ source: 'fixture' });
+  });
+
+  it('applies per-wallet budget overrides', () => {
+    process.env.AI_DAILY_TOKEN_BUDGET = '5000';
+    process.env.AI_TOKEN_BUDGET_OVERRIDES = `${ALICE.toLowerCase()}:0, ${BOB}:200`;
+
+    expect(usage.getBudget(ALICE)).toBeNull();
+    expect(usage.getBudget(BOB)).toBe(200);
+    expect(usage.getBudget('0x00000000000000000000000000000000000000cc')).toBe(5000);
+  });
+
+  it('persists records across restarts', async () => {
+    await ai.categorizeTask('Build a React dashboard', { wallet: ALICE });
+    await ai.generateTaskTemplate('Landing page', { wallet: BOB });
+
+    const reloaded = new AIUsageService(filePath);
+    await reloaded.load();
+    expect(reloaded.report({ groupBy: 'operation' }).groups.map((g) => g.key).sort()).toEqual([
+      'categorizeTask',
+      'generateTaskTemplate',
+    ]);
+    expect(reloaded.getBudgetStatus(ALICE).used).toBe(usage.getBudgetStatus(ALICE).used);
+  });
+});
@@ -0,0 +1,69 @@
+import { AnalyticsService } from '../src/services/analytics';
+import type { TaskStore } from '../src/services/taskStore';
+import { IndexedEvent } from '../src/types/task';
+
+const CREATOR = '0x00000000000000000000000000000000000000aa';
+const WORKER = '0x00000000000000000000000000000000000000bb';
+const DAY = 24 * 60 * 60;
+const START = 1_700_006_400;
+
+const event = (name: IndexedEvent['name'], taskId: number, timestamp: number, args: Record<string, unknown>) =>
+  ({
+    name,
+    taskId,
+    blockNumber: 1,
+    blockHash: '0x',
+    logIndex: 0,
+    transactionHash: '0x',
+    timestamp,
+    args,
+  }) as IndexedEvent;
+
+// A task that was assigned and disputed, then resolved in `winner`'s favour
+const disputedTask = (taskId: number, winner: string, payment: string): IndexedEvent[] => [
+  event('TaskCreated', taskId, START, { creator: CREATOR, bounty: '1000', category: 'Development' }),
+  event('TaskAssigned', taskId, START + 60, { worker: WORKER }),
+  event('TaskDisputed', taskId, START + 120, { disputant: CREATOR }),
+  event('DisputeResolved', taskId, START + DAY, { winner, payment }),
+];
+
+describe('AnalyticsService', () => {
+  let events: IndexedEvent[];
+  let analytics: AnalyticsService;
+
+  beforeEach(() => {
+    events = [];
+    const store = {
+      getEvents: () => events,
+      getVersion: () => events.length,
+      getLastProcessedBlock: () => 1,
+    } as unknown as TaskStore;
+    analytics = new AnalyticsService(store);
+  });
+
+  it('counts a dispute the worker won as a completion', () => {
+    events = disputedTask(1, WORKER, '980');
+
+    const stats = analytics.getStats(START + DAY);
+    expect(stats.totalCompleted).toBe(1);
+    expect(stats.completionRate).toBe(1);
+    expect(stats.feeRevenue).toBe('20');
+    expect(analytics.getTimeSeries('day')[1]).toMatchObject({ tasksCompleted: 1, feeRevenue: '20' });
+  });
+
+  it('counts a dispute the creator won as a refund, not a completion', () => {
+    events = [
+      ...disputedTask(1, CREATOR, '0'),
+      event('TaskCreated', 2, START, { creator: CREATOR, bounty: '1000', category: 'Development' }),
+      event('TaskCompleted', 2, START + 3600, { worker: WORKER, payment: '980' }),
+    ];
+
+    const stats = analytics.getStats(START + DAY);
+    expect(stats.totalCompleted).toBe(1);
+    expect(stats.completionRate).toBe(0.5);
+    expect(stats.averageTimeToCompletion).toBe(3600);
+    expect(stats.feeRevenue).toBe('20');
+    expect(analytics.getTimeSeries('day').map((b) => b.tasksCompleted)).toEqual([1, 0]);
+    expect(analytics.getCategoryStats().find((c) => c.category === 'Development')!.totalCompleted).toBe(1);
+  });
+});
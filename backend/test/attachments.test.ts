@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+jest.mock('../src/services/pinning/kuboProvider', () => ({ KuboPinningProvider: jest.fn() }));
+
+import { AttachmentService } from '../src/services/attachments';
+import { IPFSService } from '../src/services/ipfs';
+import { IPFSGatewayClient } from '../src/services/ipfsGateways';
+import { FsContentStore, PinRegistry } from '../src/services/pinning';
+
+const UPLOADER = '0x00000000000000000000000000000000000000AA';
+const BOUNDARY = 'test-boundary';
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(64, 7)]);
+const PDF = Buffer.from('%PDF-1.7\n' + 'x'.repeat(200));
+
+interface Part {
+  filename: string;
+  type: string;
+  content: Buffer;
+}
+
+// Multipart body split into small chunks, as a socket would deliver it
+const multipart = (parts: Part[]) => {
+  const body = Buffer.concat([
+    ...parts.flatMap((part) => [
+      Buffer.from(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="files"; filename="${part.filename}"\r\n` +
+          `Content-Type: ${part.type}\r\n\r\n`
+      ),
+      part.content,
+      Buffer.from('\r\n'),
+    ]),
+    Buffer.from(`--${BOUNDARY}--\r\n`),
+  ]);
+  const chunks = [];
+  for (let i = 0; i < body.length; i += 16) {
+    chunks.push(body.subarray(i, i + 16));
+  }
+  return {
+    headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+    body: Readable.from(chunks),
+  };
+};
+
+const readAll = async (source: AsyncIterable<Uint8Array>) => {
+  const chunks = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('AttachmentService', () => {
+  let dir: string;
+  let ipfs: IPFSService;
+  let attachments: AttachmentService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+    ipfs = new IPFSService(
+      [new FsContentStore(path.join(dir, 'blocks'))],
+      new PinRegistry(path.join(dir, 'pins.json')),
+      new IPFSGatewayClient([])
+    );
+    attachments = new AttachmentService(path.join(dir, 'attachments.json'), ipfs);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.UPLOAD_MAX_FILE_BYTES;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('streams each file to IPFS and keeps its name and type', async () => {
+    const { headers, body } = multipart([
+      { filename: 'mockup.png', type: 'image/png', content: PNG },
+      { filename: 'brief.pdf', type: 'application/pdf', content: PDF },
+    ]);
+
+    const files = await attachments.receive(headers, body, UPLOADER);
+
+    expect(files.map((f) => [f.name, f.mimeType, f.size])).toEqual([
+      ['mockup.png', 'image/png', PNG.length],
+      ['brief.pdf', 'application/pdf', PDF.length],
+    ]);
+    await expect(readAll(ipfs.stream(files[0].cid))).resolves.toEqual(PNG);
+    expect((await ipfs.getPins(files[1].cid))[0].status).toBe('pinned');
+
+    const reloaded = new AttachmentService(path.join(dir, 'attachments.json'), ipfs);
+    await expect(reloaded.getDownloadHeaders(files[0].cid)).resolves.toEqual({
+      'Content-Type': 'image/png',
+      'Content-Length': String(PNG.length),
+      'Content-Disposition': "inline; filename*=UTF-8''mockup.png",
+    });
+  });
+
+  it('rejects types outside the allow-list', async () => {
+    const { headers, body } = multipart([{ filename: 'page.html', type: 'text/html', content: Buffer.from('<html>') }]);
+
+    await expect(attachments.receive(headers, body, UPLOADER)).rejects.toMatchObject({ statusCode: 415 });
+  });
+
+  it('rejects content that does not match the declared type', async () => {
+    const { headers, body } = multipart([{ filename: 'fake.png', type: 'image/png', content: PDF }]);
+
+    await expect(attachments.receive(headers, body, UPLOADER)).rejects.toMatchObject({ statusCode: 415 });
+  });
+
+  it('aborts files over the size limit without storing them', async () => {
+    process.env.UPLOAD_MAX_FILE_BYTES = '100';
+    const { headers, body } = multipart([{ filename: 'brief.pdf', type: 'application/pdf', content: PDF }]);
+
+    await expect(attachments.receive(headers, body, UPLOADER)).rejects.toMatchObject({ statusCode: 413 });
+    expect(fs.readdirSync(path.join(dir, 'blocks'))).toEqual([]);
+  });
+
+  it('requires a multipart body with at least one file', async () => {
+    await expect(
+      attachments.receive({ 'content-type': 'application/json' }, Readable.from([]), UPLOADER)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    const { headers, body } = multipart([]);
+    await expect(attachments.receive(headers, body, UPLOADER)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
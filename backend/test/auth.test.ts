@@ -0,0 +1,164 @@
+import { ethers } from 'ethers';
+import { AuthService } from '../src/services/auth';
+import { parseSiweMessage } from '../src/utils/siwe';
+
+const wallet = ethers.Wallet.createRandom();
+
+interface MessageFields {
+  domain?: string;
+  uri?: string;
+  chainId?: number;
+  nonce: string;
+  issuedAt?: string;
+  expirationTime?: string;
+}
+
+const siweMessage = ({
+  domain = 'localhost:3000',
+  uri = 'http://localhost:3000',
+  chainId = 31337,
+  nonce,
+  issuedAt = new Date().toISOString(),
+  expirationTime,
+}: MessageFields) =>
+  [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    wallet.address,
+    '',
+    'Sign in to Task Chainz',
+    '',
+    `URI: ${uri}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+    ...(expirationTime ? [`Expiration Time: ${expirationTime}`] : []),
+  ].join('\n');
+
+describe('parseSiweMessage', () => {
+  it('reads the header, statement, fields and resources', () => {
+    const message = `${siweMessage({ nonce: 'abcdef123456' })}\nResources:\n- ipfs://bafy\n- https://example.com`;
+
+    expect(parseSiweMessage(message)).toMatchObject({
+      domain: 'localhost:3000',
+      address: wallet.address,
+      statement: 'Sign in to Task Chainz',
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 31337,
+      nonce: 'abcdef123456',
+      resources: ['ipfs://bafy', 'https://example.com'],
+    });
+  });
+
+  it.each([
+    ['a missing header', (m: string) => m.replace(' wants you to sign in', ' would like you to sign in'), 'Missing SIWE header'],
+    ['a short nonce', (m: string) => m.replace('Nonce: abcdef123456', 'Nonce: abc'), 'Invalid nonce'],
+    ['a bad chain ID', (m: string) => m.replace('Chain ID: 31337', 'Chain ID: -1'), 'Invalid chain ID'],
+    ['an unknown field', (m: string) => `${m}\nFavourite Colour: blue`, 'Unexpected line'],
+  ])('rejects %s', (_name, mangle, error) => {
+    expect(() => parseSiweMessage(mangle(siweMessage({ nonce: 'abcdef123456' })))).toThrow(error);
+  });
+});
+
+describe('AuthService.signIn', () => {
+  let auth: AuthService;
+
+  const signIn = async (fields: Partial<MessageFields> = {}) => {
+    const message = siweMessage({ nonce: auth.issueNonce(), ...fields });
+    return auth.signIn(message, await wallet.signMessage(message));
+  };
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.SIWE_DOMAINS = 'localhost:3000';
+    auth = new AuthService();
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET;
+    delete process.env.SIWE_DOMAINS;
+    delete process.env.SIWE_CHAIN_IDS;
+    jest.useRealTimers();
+  });
+
+  it('issues a session for a valid signed message', async () => {
+    const { token, session } = await signIn();
+
+    expect(session).toMatchObject({ address: wallet.address, chainId: 31337 });
+    expect(auth.verifyToken(token).address).toBe(wallet.address);
+  });
+
+  it('refuses to reuse a nonce', async () => {
+    const message = siweMessage({ nonce: auth.issueNonce() });
+    const signature = await wallet.signMessage(message);
+    await auth.signIn(message, signature);
+
+    await expect(auth.signIn(message, signature)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Unknown or expired nonce',
+    });
+  });
+
+  it('refuses a nonce it never issued', async () => {
+    const message = siweMessage({ nonce: 'abcdef123456' });
+    await expect(auth.signIn(message, await wallet.signMessage(message))).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('refuses a nonce after it expires', async () => {
+    jest.useFakeTimers({ now: Date.now() });
+    const message = siweMessage({ nonce: auth.issueNonce() });
+    const signature = await wallet.signMessage(message);
+    jest.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    await expect(auth.signIn(message, signature)).rejects.toMatchObject({ message: 'Unknown or expired nonce' });
+  });
+
+  it('refuses an expired message', async () => {
+    await expect(signIn({ expirationTime: new Date(Date.now() - 1000).toISOString() })).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'SIWE message expired',
+    });
+  });
+
+  it('refuses a message issued in the future', async () => {
+    await expect(signIn({ issuedAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() })).rejects.toMatchObject({
+      message: 'Invalid issued-at time',
+    });
+  });
+
+  it('refuses other domains and URIs on another host', async () => {
+    await expect(signIn({ domain: 'evil.example', uri: 'https://evil.example' })).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'SIWE domain not allowed',
+    });
+    await expect(signIn({ uri: 'https://evil.example' })).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'SIWE URI does not match domain',
+    });
+  });
+
+  it('refuses chains that are not allowed', async () => {
+    await expect(signIn({ chainId: 1 })).rejects.toMatchObject({ statusCode: 401, message: 'SIWE chain not allowed' });
+
+    process.env.SIWE_CHAIN_IDS = '1';
+    await expect(signIn({ chainId: 1 })).resolves.toMatchObject({ session: { chainId: 1 } });
+  });
+
+  it('answers a malformed URI with a 400', async () => {
+    await expect(signIn({ uri: 'not a uri' })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Invalid SIWE message',
+    });
+  });
+
+  it('refuses a signature from another wallet', async () => {
+    const message = siweMessage({ nonce: auth.issueNonce() });
+    const signature = await ethers.Wallet.createRandom().signMessage(message);
+
+    await expect(auth.signIn(message, signature)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Signature does not match address',
+    });
+  });
+});
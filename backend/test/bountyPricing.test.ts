@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { IndexedTask, TaskCategory } from '../src/types/task';
+import { HashingEmbeddingProvider } from '../src/services/llm';
+import type { TaskStore } from '../src/services/taskStore';
+
+const METADATA: Record<string, { title: string; description: string }> = {
+  'cid-1': { title: 'Solidity escrow', description: 'Write a Solidity escrow smart contract with unit tests' },
+  'cid-2': { title: 'Solidity vesting', description: 'Write a Solidity vesting smart contract with unit tests' },
+  'cid-3': { title: 'Solidity staking', description: 'Write a Solidity staking smart contract with unit tests' },
+  'cid-4': { title: 'Solidity airdrop', description: 'Write a Solidity airdrop smart contract with unit tests' },
+  'cid-5': { title: 'Bakery logo', description: 'Draw a watercolour logo for a bakery' },
+};
+
+jest.mock('../src/services/taskMetadata', () => ({
+  __esModule: true,
+  default: { get: async (cid: string) => METADATA[cid] ?? null },
+}));
+
+import { BountyPricingService } from '../src/services/bountyPricing';
+import claudeAI from '../src/services/claudeAI';
+import { RecommendationEngine } from '../src/services/recommendations';
+
+const CREATOR = '0x00000000000000000000000000000000000000bb';
+const WORKER = '0x00000000000000000000000000000000000000aa';
+
+const completed = (
+  id: number,
+  bounty: string,
+  category: TaskCategory = 'Development',
+  disputeWinner: string | null = null
+): IndexedTask => ({
+  id,
+  creator: CREATOR,
+  worker: WORKER,
+  ipfsHash: `cid-${id}`,
+  bounty: ethers.parseEther(bounty).toString(),
+  deadline: 2_000_000_000,
+  status: 'Completed',
+  category,
+  createdAt: 1_700_000_000,
+  completedAt: 1_700_000_000 + id * 3600,
+  submissionHash: 'cid-submission',
+  requiredReputation: '0',
+  isUrgent: false,
+  disputedBy: disputeWinner ? CREATOR : null,
+  disputeWinner,
+  payment: null,
+  updatedAtBlock: 1,
+});
+
+const REQUEST = {
+  description: 'Write a Solidity lottery smart contract',
+  requirements: 'Include unit tests',
+  category: 'Development' as const,
+};
+
+describe('BountyPricingService', () => {
+  let dir: string;
+  let tasks: IndexedTask[];
+  let pricing: BountyPricingService;
+
+  beforeAll(() => {
+    process.env.AI_PROVIDER = 'fixture';
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pricing-'));
+    tasks = [];
+    const store = { getTasks: () => tasks } as unknown as TaskStore;
+    const engine = new RecommendationEngine(path.join(dir, 'vectors.json'), new HashingEmbeddingProvider());
+    pricing = new BountyPricingService(store, engine);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses the AI estimate alone without history', async () => {
+    const price = await pricing.price(REQUEST);
+
+    // Fixture: short spec, 2 hours at 400 TASKZ/hour
+    expect(price.basis).toBe('ai');
+    expect(price.suggestedBounty).toBe(800);
+    expect(price.range).toEqual({ low: 600, high: 1000 });
+    expect(price.percentiles).toBeNull();
+    expect(price.comparables).toEqual([]);
+    expect(price.explanation).toMatch(/No comparable completed tasks/);
+  });
+
+  it('blends percentiles of comparable completions with the AI estimate', async () => {
+    tasks = [
+      completed(1, '100'),
+      completed(2, '200'),
+      completed(3, '300'),
+      completed(4, '400'),
+      completed(5, '50000', 'Design'),
+    ];
+    const price = await pricing.price(REQUEST);
+
+    expect(price.basis).toBe('history+ai');
+    expect(price.percentiles!.p50).toBeGreaterThanOrEqual(100);
+    expect(price.percentiles!.p50).toBeLessThanOrEqual(400);
+    // The unrelated design task barely counts, if at all
+    expect(price.comparables[0].category).toBe('Development');
+    const design = price.comparables.find((c) => c.taskId === 5);
+    expect(design?.weight ?? 0).toBeLessThan(0.1);
+
+    const { history, ai } = price.weights;
+    expect(history + ai).toBeCloseTo(1);
+    expect(price.suggestedBounty).toBeCloseTo(history * price.percentiles!.p50 + ai * 800, 0);
+    expect(price.range!.low).toBeLessThanOrEqual(price.suggestedBounty!);
+    expect(price.range!.high).toBeGreaterThanOrEqual(price.suggestedBounty!);
+    expect(price.explanation).toContain(`#${price.comparables[0].taskId}`);
+  });
+
+  it('gives no price without history or an AI estimate', async () => {
+    jest.spyOn(claudeAI, 'estimateTaskComplexity').mockResolvedValueOnce({
+      data: { complexity: 'medium', estimatedHours: 8, suggestedBounty: 1600, reasoning: 'Unable to analyze' },
+      source: 'fallback',
+      model: null,
+      attempts: 1,
+      safety: { injection: [], echoedInstructions: false },
+    });
+    const price = await pricing.price(REQUEST);
+
+    expect(price.basis).toBe('none');
+    expect(price.suggestedBounty).toBeNull();
+    expect(price.range).toBeNull();
+    expect(price.explanation).toMatch(/no suggested bounty/);
+  });
+
+  it('discounts completions the worker won in a dispute', async () => {
+    tasks = [completed(1, '100'), completed(2, '100', 'Development', WORKER)];
+    const price = await pricing.price(REQUEST);
+
+    const [clean, disputed] = [1, 2].map((id) => price.comparables.find((c) => c.taskId === id)!);
+    expect(disputed.disputed).toBe(true);
+    expect(disputed.weight).toBeLessThan(clean.weight);
+    expect(price.disputeRate).toBe(0.5);
+  });
+
+  it('leaves out disputes the creator won', async () => {
+    tasks = [completed(1, '100'), completed(2, '100', 'Development', CREATOR)];
+    const price = await pricing.price(REQUEST);
+
+    expect(price.comparables.map((c) => c.taskId)).toEqual([1]);
+    expect(price.disputeRate).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const CREATOR = '0x00000000000000000000000000000000000000AA';
+const WORKER = '0x00000000000000000000000000000000000000bb';
+const RESOLVER = '0x00000000000000000000000000000000000000cc';
+const STRANGER = '0x00000000000000000000000000000000000000dd';
+
+const mockTasks: Record<number, any> = {};
+
+jest.mock('../src/services/taskStore', () => ({
+  __esModule: true,
+  default: { getTask: (id: number) => mockTasks[id] ?? null },
+}));
+
+jest.mock('../src/services/accessControl', () => ({
+  __esModule: true,
+  default: { isDisputeResolver: async (address: string) => address.toLowerCase() === RESOLVER },
+}));
+
+import { DocumentKeyService } from '../src/services/documentKeys';
+import { WrappedKey } from '../src/shared/encryption';
+
+const keyFor = (recipient: string, fill = 'A'): WrappedKey => ({
+  recipient: recipient.toLowerCase(),
+  algorithm: 'ecies-secp256k1-hkdf-sha256-aes-256-gcm',
+  ephemeralPublicKey: `0x02${'1'.repeat(64)}`,
+  iv: 'AAAAAAAAAAAAAAAA',
+  wrappedKey: fill.repeat(64),
+});
+
+describe('DocumentKeyService', () => {
+  let dir: string;
+  let filePath: string;
+  let keys: DocumentKeyService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'document-keys-'));
+    filePath = path.join(dir, 'document-keys.json');
+    keys = new DocumentKeyService(filePath);
+    mockTasks[1] = {
+      id: 1,
+      creator: CREATOR,
+      worker: WORKER,
+      ipfsHash: 'bafkreibrief',
+      submissionHash: null,
+      disputedBy: null,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lets the creator share the brief with the assigned worker', async () => {
+    await expect(keys.grant(1, 'brief', CREATOR, [keyFor(WORKER)])).resolves.toEqual([WORKER]);
+
+    const reloaded = new DocumentKeyService(filePath);
+    const { key, recipients } = await reloaded.getGrants(1, 'brief', WORKER);
+    expect(key).toMatchObject({ recipient: WORKER, grantedBy: CREATOR.toLowerCase() });
+    expect(recipients).toEqual([WORKER]);
+  });
+
+  it('only lets the task parties share keys, and only with each other', async () => {
+    await expect(keys.grant(1, 'brief', STRANGER, [keyFor(WORKER)])).rejects.toMatchObject({ statusCode: 403 });
+    await expect(keys.grant(1, 'brief', CREATOR, [keyFor(STRANGER)])).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('allows dispute resolvers once the task has been disputed', async () => {
+    await expect(keys.grant(1, 'brief', WORKER, [keyFor(RESOLVER)])).rejects.toMatchObject({ statusCode: 403 });
+
+    mockTasks[1].disputedBy = CREATOR;
+    await expect(keys.grant(1, 'brief', WORKER, [keyFor(RESOLVER)])).resolves.toEqual([RESOLVER]);
+  });
+
+  it('never replaces an existing grant', async () => {
+    await keys.grant(1, 'brief', CREATOR, [keyFor(WORKER, 'A')]);
+    await expect(keys.grant(1, 'brief', WORKER, [keyFor(WORKER, 'B')])).resolves.toEqual([]);
+
+    const { key } = await keys.getGrants(1, 'brief', WORKER);
+    expect(key?.wrappedKey).toBe('A'.repeat(64));
+  });
+
+  it('requires a submission before its key can be shared', async () => {
+    await expect(keys.grant(1, 'submission', WORKER, [keyFor(CREATOR)])).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The Kubo client is ESM-only and not needed here
+jest.mock('../src/services/pinning/kuboProvider', () => ({ KuboPinningProvider: jest.fn() }));
+
+import { ValidationError } from '../src/middleware/errorHandler';
+import { IPFSService } from '../src/services/ipfs';
+import { IPFSGatewayClient } from '../src/services/ipfsGateways';
+import { FsContentStore, PinRegistry } from '../src/services/pinning';
+import { parseDocument } from '../src/shared/documents';
+
+describe('document schemas', () => {
+  it('migrates unversioned task metadata', () => {
+    const result = parseDocument('task', {
+      title: 'Logo design',
+      description: 'A logo for the launch',
+      requirements: 'Vector format\nTwo colour variants',
+      deliverables: ['logo.svg'],
+      category: 'Design',
+    });
+
+    expect(result.success && result.data).toEqual({
+      schemaVersion: 1,
+      title: 'Logo design',
+      description: 'A logo for the launch',
+      requirements: ['Vector format', 'Two colour variants'],
+      deliverables: ['logo.svg'],
+      acceptanceCriteria: [],
+      skills: [],
+      attachments: [],
+      category: 'Design',
+    });
+  });
+
+  it('migrates plain-text submissions and free-form evidence', () => {
+    const submission = parseDocument('submission', 'Done, see https://example.com/logo.svg');
+    expect(submission.success && submission.data).toMatchObject({
+      schemaVersion: 1,
+      summary: 'Done, see https://example.com/logo.svg',
+      links: [],
+    });
+
+    const evidence = parseDocument('evidence', { reason: 'Files were missing', urls: ['https://example.com/chat'] });
+    expect(evidence.success && evidence.data).toMatchObject({
+      schemaVersion: 1,
+      statement: 'Files were missing',
+      links: ['https://example.com/chat'],
+    });
+  });
+
+  it('rejects versions newer than the reader knows', () => {
+    const result = parseDocument('task', { schemaVersion: 2, title: 'Logo design', description: 'A logo' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects migrated documents that are still invalid', () => {
+    expect(parseDocument('task', { description: 'No title' }).success).toBe(false);
+  });
+});
+
+describe('IPFSService documents', () => {
+  let dir: string;
+  let ipfs: IPFSService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    const store = new FsContentStore(path.join(dir, 'blocks'));
+    ipfs = new IPFSService([store], new PinRegistry(path.join(dir, 'pins.json')), new IPFSGatewayClient([]));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses to upload documents that do not match the current schema', async () => {
+    await expect(ipfs.uploadJSON('task', { title: 'Logo design' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      ipfs.uploadJSON('submission', { schemaVersion: 1, summary: 'Done', links: ['not a url'] })
+    ).rejects.toThrow('Invalid submission document');
+  });
+
+  it('accepts encrypted envelopes of the matching kind without reading them', async () => {
+    const envelope = {
+      schemaVersion: 1,
+      kind: 'submission',
+      algorithm: 'aes-256-gcm',
+      iv: 'AAAAAAAAAAAAAAAA',
+      ciphertext: 'c2VjcmV0',
+      keys: [
+        {
+          recipient: '0x00000000000000000000000000000000000000AA',
+          algorithm: 'ecies-secp256k1-hkdf-sha256-aes-256-gcm',
+          ephemeralPublicKey: `0x02${'1'.repeat(64)}`,
+          iv: 'AAAAAAAAAAAAAAAA',
+          wrappedKey: 'A'.repeat(64),
+        },
+      ],
+    };
+
+    const cid = await ipfs.uploadJSON('submission', envelope);
+    await expect(ipfs.getDocument('submission', cid)).resolves.toMatchObject({ kind: 'submission', ciphertext: 'c2VjcmV0' });
+    await expect(ipfs.uploadJSON('task', envelope)).rejects.toThrow('Invalid task document');
+  });
+
+  it('reads older documents through the migration path', async () => {
+    const store = new FsContentStore(path.join(dir, 'blocks'));
+    const cid = await store.add(Buffer.from('Logo attached as discussed'));
+
+    await expect(ipfs.getDocument('submission', cid)).resolves.toMatchObject({
+      schemaVersion: 1,
+      summary: 'Logo attached as discussed',
+    });
+  });
+});
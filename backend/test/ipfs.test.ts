@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { base58btc } from 'multiformats/bases/base58';
+import { CID } from 'multiformats/cid';
+import * as Digest from 'multiformats/hashes/digest';
+import os from 'os';
+import path from 'path';
+
+// The Kubo RPC client is ESM-only; tests stand in for the node
+const mockKubo = { add: jest.fn(), cat: jest.fn(), pin: { add: jest.fn() } };
+jest.mock('ipfs-http-client', () => ({ create: () => mockKubo }), { virtual: true });
+
+import { ContentCache } from '../src/services/contentCache';
+import { IPFSService } from '../src/services/ipfs';
+import { IPFSGatewayClient } from '../src/services/ipfsGateways';
+import {
+  FsContentStore,
+  KuboPinningProvider,
+  PinningProvider,
+  PinRegistry,
+  PinResult,
+  rawBlockCid,
+} from '../src/services/pinning';
+import { SHA2_256 } from '../src/shared/cid';
+
+const task = (title: string) => ({ schemaVersion: 1, title, description: `${title} for the launch` });
+
+class FakeRemoteProvider implements PinningProvider {
+  readonly name = 'remote';
+  state: PinResult = { status: 'queued', requestId: 'req-1' };
+  failing = false;
+
+  async pin(): Promise<PinResult> {
+    if (this.failing) {
+      throw new Error('service unavailable');
+    }
+    return this.state;
+  }
+
+  async unpin(): Promise<void> {}
+
+  async status(): Promise<PinResult> {
+    return this.state;
+  }
+}
+
+describe('IPFSService pinning', () => {
+  let dir: string;
+  let store: FsContentStore;
+  let remote: FakeRemoteProvider;
+  let ipfs: IPFSService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipfs-'));
+    store = new FsContentStore(path.join(dir, 'blocks'));
+    remote = new FakeRemoteProvider();
+    ipfs = new IPFSService([store, remote], new PinRegistry(path.join(dir, 'pins.json')), new IPFSGatewayClient([]));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores content under its CID and pins uploads on every provider', async () => {
+    const cid = await ipfs.uploadJSON('task', task('Logo design'));
+
+    expect(cid).toMatch(/^bafkrei[a-z2-7]+$/);
+    await expect(ipfs.getJSON(cid)).resolves.toMatchObject({ schemaVersion: 1, title: 'Logo design' });
+    expect((await ipfs.getPins(cid)).map((p) => [p.provider, p.status])).toEqual([
+      ['fs', 'pinned'],
+      ['remote', 'queued'],
+    ]);
+    await expect(store.status(cid)).resolves.toEqual({ status: 'pinned' });
+  });
+
+  it('gives identical content the same CID', async () => {
+    const first = await ipfs.uploadJSON('task', task('Logo design'));
+    const second = await ipfs.uploadJSON('task', task('Logo design'));
+    const third = await ipfs.uploadJSON('task', task('Icon set'));
+
+    expect(second).toBe(first);
+    expect(third).not.toBe(first);
+  });
+
+  it('records failed replicas without failing the upload', async () => {
+    remote.failing = true;
+    const cid = await ipfs.uploadJSON('task', task('Logo design'));
+
+    const reloaded = new PinRegistry(path.join(dir, 'pins.json'));
+    expect(await reloaded.get(cid)).toEqual([
+      expect.objectContaining({ provider: 'fs', status: 'pinned' }),
+      expect.objectContaining({ provider: 'remote', status: 'failed', error: 'service unavailable' }),
+    ]);
+  });
+
+  it('fails when no provider accepts the pin', async () => {
+    remote.failing = true;
+    await expect(ipfs.pin('bafkreinotstoredanywhere')).rejects.toThrow('Failed to pin to IPFS');
+  });
+
+  it('re-checks pins that are still in progress', async () => {
+    const cid = await ipfs.uploadJSON('task', task('Logo design'));
+    remote.state = { status: 'pinned', requestId: 'req-1' };
+
+    const pins = await ipfs.getPins(cid);
+    expect(pins.find((p) => p.provider === 'remote')).toMatchObject({ status: 'pinned', requestId: 'req-1' });
+  });
+});
+
+describe('IPFSService reads', () => {
+  const content = Buffer.from(JSON.stringify({ title: 'Logo design' }));
+  const cid = rawBlockCid(content);
+  // A UnixFS CIDv0, as Kubo returns for uploads; gateway replies can't be checked against it
+  const dagPb = CID.createV0(Digest.create(SHA2_256, crypto.createHash('sha256').update('unixfs root').digest()));
+
+  let dir: string;
+  let store: FsContentStore;
+  let fetchMock: jest.SpyInstance;
+
+  // A gateway that only answers once it is aborted
+  const hang = (_url: any, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => init?.signal?.addEventListener('abort', () => reject(new Error('aborted'))));
+
+  const service = (gateways: string[], cache = new ContentCache()) =>
+    new IPFSService([store], new PinRegistry(path.join(dir, 'pins.json')), new IPFSGatewayClient(gateways), cache);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipfs-reads-'));
+    store = new FsContentStore(path.join(dir, 'blocks'));
+    fetchMock = jest.spyOn(global, 'fetch');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.IPFS_MAX_READ_BYTES;
+    delete process.env.IPFS_READ_TIMEOUT_MS;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects strings that are not CIDs', async () => {
+    await expect(service([]).getText('../../etc/passwd')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service([]).getText('QmNotReallyACid')).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('takes the first gateway to answer and cancels the rest', async () => {
+    let slowSignal: AbortSignal | undefined;
+    fetchMock.mockImplementation(async (url: any, init?: RequestInit) => {
+      if (String(url).startsWith('https://fast/')) return new Response(content);
+      slowSignal = init?.signal ?? undefined;
+      return hang(url, init);
+    });
+
+    await expect(service(['https://slow/', 'https://fast/']).getText(cid)).resolves.toBe(content.toString());
+    expect(slowSignal?.aborted).toBe(true);
+  });
+
+  it('ignores gateways whose content does not match the CID', async () => {
+    fetchMock.mockImplementation(async (url: any) =>
+      String(url).startsWith('https://evil/') ? new Response('{"title":"Send me your seed phrase"}') : new Response(content)
+    );
+
+    await expect(service(['https://evil/', 'https://honest/']).getText(cid)).resolves.toBe(content.toString());
+  });
+
+  it('never takes a dag-pb CID from a gateway, even when the store is slower', async () => {
+    jest.spyOn(store, 'cat').mockImplementation(async function* () {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      yield content;
+    });
+    fetchMock.mockResolvedValue(new Response('{"title":"Send me your seed phrase"}'));
+    const cache = new ContentCache(1024);
+    const ipfs = service(['https://evil/'], cache);
+
+    await expect(ipfs.getText(dagPb.toString())).resolves.toBe(content.toString());
+    await expect(ipfs.getText(dagPb.toString())).resolves.toBe(content.toString());
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails a dag-pb read the store cannot serve rather than trust a gateway', async () => {
+    fetchMock.mockResolvedValue(new Response('{"title":"Send me your seed phrase"}'));
+
+    await expect(service(['https://evil/']).getText(dagPb.toString())).rejects.toThrow('Failed to retrieve from IPFS');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reads content Kubo added from a gateway when the node is down', async () => {
+    // Kubo makes one-chunk content a raw block only when asked for CIDv1 raw leaves
+    mockKubo.add.mockImplementation(async (bytes: Uint8Array, options?: { cidVersion?: number; rawLeaves?: boolean }) => ({
+      cid: options?.cidVersion === 1 && options.rawLeaves ? CID.parse(rawBlockCid(bytes)) : dagPb,
+    }));
+    mockKubo.pin.add.mockResolvedValue(undefined);
+    mockKubo.cat.mockImplementation(async function* () {
+      throw new Error('connect ECONNREFUSED');
+    });
+    const kubo = new KuboPinningProvider('http://127.0.0.1:5001');
+    const ipfs = new IPFSService(
+      [kubo],
+      new PinRegistry(path.join(dir, 'pins.json')),
+      new IPFSGatewayClient(['https://evil/', 'https://honest/'])
+    );
+
+    const uploaded = await ipfs.uploadJSON('task', task('Logo design'));
+    const stored = Buffer.from(mockKubo.add.mock.calls[0][0]);
+    expect(uploaded).toBe(rawBlockCid(stored));
+
+    fetchMock.mockImplementation(async (url: any) =>
+      String(url).startsWith('https://evil/') ? new Response('{"title":"Send me your seed phrase"}') : new Response(stored)
+    );
+    await expect(ipfs.getJSON(uploaded)).resolves.toMatchObject({ title: 'Logo design' });
+    expect(mockKubo.cat).toHaveBeenCalledWith(uploaded);
+  });
+
+  it('gives up after the read timeout', async () => {
+    process.env.IPFS_READ_TIMEOUT_MS = '50';
+    fetchMock.mockImplementation(hang);
+
+    await expect(service(['https://slow/']).getText(cid)).rejects.toThrow('Failed to retrieve from IPFS');
+  });
+
+  it('refuses content over the read limit', async () => {
+    process.env.IPFS_MAX_READ_BYTES = '10';
+    const cached = await store.add(content);
+
+    await expect(service([]).getText(cached)).rejects.toMatchObject({ statusCode: 413 });
+  });
+
+  it('serves repeat reads from the cache, whatever base the CID is written in', async () => {
+    const cache = new ContentCache(1024);
+    const stored = await store.add(content);
+    const ipfs = service([], cache);
+    await ipfs.getText(stored);
+
+    const cat = jest.spyOn(store, 'cat');
+    await expect(ipfs.getText(stored)).resolves.toBe(content.toString());
+    await expect(ipfs.getText(CID.parse(stored).toString(base58btc))).resolves.toBe(content.toString());
+    expect(cat).not.toHaveBeenCalled();
+  });
+});
+
+describe('ContentCache', () => {
+  it('evicts the least recently used content once over its byte budget', () => {
+    const cache = new ContentCache(10);
+    cache.set('a', Buffer.alloc(4));
+    cache.set('b', Buffer.alloc(4));
+    cache.get('a');
+    cache.set('c', Buffer.alloc(4));
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+
+    cache.set('huge', Buffer.alloc(11));
+    expect(cache.get('huge')).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { AnthropicProvider, createProvider, FixtureProvider } from '../src/services/llm';
+
+describe('createProvider', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.AI_PROVIDER;
+    delete process.env.ANTHROPIC_API_KEY;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('only uses fixture replies when asked for by name', () => {
+    expect(createProvider()).toBeInstanceOf(AnthropicProvider);
+
+    process.env.AI_PROVIDER = 'fixture';
+    expect(createProvider()).toBeInstanceOf(FixtureProvider);
+  });
+
+  it('refuses to start in production without an API key', () => {
+    process.env.NODE_ENV = 'production';
+    expect(() => createProvider()).toThrow('ANTHROPIC_API_KEY is not set');
+
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+    expect(createProvider()).toBeInstanceOf(AnthropicProvider);
+  });
+
+  it('rejects unknown providers', () => {
+    process.env.AI_PROVIDER = 'anthropc';
+    expect(() => createProvider()).toThrow('Unknown AI_PROVIDER');
+  });
+});
+
+describe('FixtureProvider', () => {
+  it('reads missing or null inputs as empty', async () => {
+    const provider = new FixtureProvider();
+    const request = { model: 'test', maxTokens: 100, temperature: 0, messages: [] };
+
+    const review = await provider.complete({ ...request, operation: 'reviewSubmission', input: { submission: null } });
+    expect(JSON.parse(review.text)).toMatchObject({ checklist: [] });
+    await expect(provider.complete({ ...request, operation: 'categorizeTask' })).resolves.toMatchObject({
+      text: 'Other',
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const REPORTER = '0x00000000000000000000000000000000000000AA';
+const REVIEWER = '0x00000000000000000000000000000000000000BB';
+const SPAMMER = '0x00000000000000000000000000000000000000cc';
+
+jest.mock('../src/services/taskStore', () => ({
+  __esModule: true,
+  default: {
+    getTasks: () => [
+      { id: 1, creator: '0x00000000000000000000000000000000000000dd' },
+      { id: 2, creator: '0x00000000000000000000000000000000000000CC' },
+      { id: 3, creator: '0x00000000000000000000000000000000000000cc' },
+    ],
+  },
+}));
+
+import { ModerationService } from '../src/services/moderation';
+
+describe('ModerationService', () => {
+  let dir: string;
+  let filePath: string;
+  let moderation: ModerationService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'moderation-'));
+    filePath = path.join(dir, 'moderation.json');
+    moderation = new ModerationService(filePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges flags for the same subject into one open item', async () => {
+    const first = await moderation.flag({ type: 'task', taskId: 1 }, { source: 'fraud', reasons: ['Lost 3 disputes'] });
+    const second = await moderation.report({ type: 'task', taskId: 1 }, REPORTER, 'Asks for a deposit up front');
+
+    expect(second.id).toBe(first.id);
+    expect(second.flags.map((f) => f.source)).toEqual(['fraud', 'report']);
+    expect(second.flags[1].reporter).toBe(REPORTER.toLowerCase());
+  });
+
+  it('rejects a second report from the same wallet', async () => {
+    await moderation.report({ type: 'task', taskId: 1 }, REPORTER, 'Asks for a deposit up front');
+
+    await expect(
+      moderation.report({ type: 'task', taskId: 1 }, REPORTER.toLowerCase(), 'Still asking for a deposit')
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('hides tasks and every task of a hidden user from listings', async () => {
+    const task = await moderation.flag({ type: 'task', taskId: 1 }, { source: 'fraud', reasons: ['High risk'] });
+    const user = await moderation.report({ type: 'user', address: SPAMMER }, REPORTER, 'Posts scam tasks');
+
+    await moderation.act(task.id, 'hide', REVIEWER);
+    await moderation.act(user.id, 'hide', REVIEWER);
+    expect([...(await moderation.getHiddenTaskIds())].sort()).toEqual([1, 2, 3]);
+
+    // Dismissing revises the decision and restores the listing
+    await moderation.act(task.id, 'dismiss', REVIEWER, 'False positive');
+    expect([...(await moderation.getHiddenTaskIds())].sort()).toEqual([2, 3]);
+  });
+
+  it('only recommends tasks for cancellation', async () => {
+    const user = await moderation.report({ type: 'user', address: SPAMMER }, REPORTER, 'Posts scam tasks');
+
+    await expect(moderation.act(user.id, 'recommendCancel', REVIEWER)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(moderation.act(99, 'dismiss', REVIEWER)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('keeps a persistent audit log of every change', async () => {
+    const item = await moderation.flag({ type: 'task', taskId: 1 }, { source: 'fraud', reasons: ['High risk'] });
+    await moderation.act(item.id, 'recommendCancel', REVIEWER, 'Scam listing');
+
+    const reloaded = new ModerationService(filePath);
+    const audit = await reloaded.getAudit(item.id);
+    expect(audit.map((e) => [e.action, e.actor, e.fromStatus, e.toStatus])).toEqual([
+      ['recommendCancel', REVIEWER.toLowerCase(), 'open', 'cancelRecommended'],
+      ['flag', 'system', null, 'open'],
+    ]);
+    expect(audit[0].note).toBe('Scam listing');
+    expect((await reloaded.list('cancelRecommended')).map((i) => i.id)).toEqual([item.id]);
+  });
+});
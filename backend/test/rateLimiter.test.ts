@@ -0,0 +1,169 @@
+import { NextFunction, Request, Response } from 'express';
+import { ReputationTier } from '../src/types/user';
+
+const mockTiers = new Map<string, ReputationTier>();
+
+jest.mock('../src/services/reputation', () => ({
+  __esModule: true,
+  default: { getTier: async (address: string) => mockTiers.get(address) ?? null },
+}));
+
+// Imported after the mocks are registered
+import { errorHandler, RateLimitError } from '../src/middleware/errorHandler';
+import {
+  MemoryRateLimitStore,
+  rateLimit,
+  RedisLikeClient,
+  RedisRateLimitStore,
+  setRateLimitStore,
+} from '../src/middleware/rateLimiter';
+
+const WALLET = '0x00000000000000000000000000000000000000aa';
+
+class FakeResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: unknown;
+
+  setHeader(name: string, value: string) {
+    this.headers[name] = value;
+    return this;
+  }
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  json(body: unknown) {
+    this.body = body;
+    return this;
+  }
+}
+
+const request = (overrides: Partial<Request> = {}) =>
+  ({ path: '/tasks', method: 'GET', ip: '10.0.0.1', ...overrides }) as Request;
+
+/**
+ * Run the middleware once, returning the response and whatever it passed to next()
+ */
+const hit = async (middleware: ReturnType<typeof rateLimit>, req = request()) => {
+  const res = new FakeResponse();
+  const next = jest.fn();
+  await middleware(req, res as unknown as Response, next as NextFunction);
+  return { res, error: next.mock.calls[0][0] as Error | undefined };
+};
+
+const hitTimes = async (count: number, middleware: ReturnType<typeof rateLimit>, req = request()) => {
+  let last = await hit(middleware, req);
+  for (let i = 1; i < count; i++) {
+    last = await hit(middleware, req);
+  }
+  return last;
+};
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    process.env.RATE_LIMIT_WINDOW_MS = '60000';
+    process.env.RATE_LIMIT_MAX_REQUESTS = '5';
+    process.env.RATE_LIMIT_WRITE_MAX_REQUESTS = '2';
+    process.env.RATE_LIMIT_AI_MAX_REQUESTS = '1';
+    setRateLimitStore(new MemoryRateLimitStore());
+    mockTiers.clear();
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_WINDOW_MS;
+    delete process.env.RATE_LIMIT_MAX_REQUESTS;
+    delete process.env.RATE_LIMIT_WRITE_MAX_REQUESTS;
+    delete process.env.RATE_LIMIT_AI_MAX_REQUESTS;
+    jest.useRealTimers();
+  });
+
+  it('counts down the remaining budget in the headers', async () => {
+    const { res, error } = await hitTimes(3, rateLimit('read'));
+
+    expect(error).toBeUndefined();
+    expect(res.headers).toMatchObject({
+      'RateLimit-Policy': '5;w=60',
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '60',
+    });
+  });
+
+  it('answers with a 429 and Retry-After once the budget is spent', async () => {
+    await hitTimes(5, rateLimit('read'));
+    jest.advanceTimersByTime(20_000);
+    const { error } = await hit(rateLimit('read'));
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    const res = new FakeResponse();
+    errorHandler(error!, request(), res as unknown as Response, jest.fn());
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('40');
+    expect(res.body).toMatchObject({ policy: 'read', limit: 5, retryAfter: 40 });
+  });
+
+  it('starts a new window once the old one has passed', async () => {
+    await hitTimes(6, rateLimit('read'));
+    jest.advanceTimersByTime(60_000);
+
+    const { res, error } = await hit(rateLimit('read'));
+    expect(error).toBeUndefined();
+    expect(res.headers['RateLimit-Remaining']).toBe('4');
+  });
+
+  it('keeps separate budgets per policy and per client', async () => {
+    const middleware = rateLimit();
+    expect((await hitTimes(2, middleware, request({ method: 'POST' }))).error).toBeUndefined();
+    expect((await hit(middleware, request({ method: 'POST' }))).error).toBeInstanceOf(RateLimitError);
+
+    // Reads, AI calls and other IPs still have their own budgets
+    expect((await hit(middleware)).error).toBeUndefined();
+    const ai = await hit(middleware, request({ path: '/ai/categorize', method: 'POST' }));
+    expect(ai.res.headers['RateLimit-Limit']).toBe('1');
+    expect((await hit(middleware, request({ method: 'POST', ip: '10.0.0.2' }))).error).toBeUndefined();
+  });
+
+  it('scales the budget by reputation tier for signed-in wallets', async () => {
+    const user = { address: WALLET } as Request['user'];
+    mockTiers.set(WALLET, 'Platinum');
+
+    expect((await hitTimes(6, rateLimit('write'), request({ user }))).error).toBeUndefined();
+    const { res, error } = await hit(rateLimit('write'), request({ user }));
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(res.headers['RateLimit-Limit']).toBe('6');
+
+    // Wallets without a tier get the base budget
+    const other = { address: '0x00000000000000000000000000000000000000bb' } as Request['user'];
+    expect((await hit(rateLimit('write'), request({ user: other }))).res.headers['RateLimit-Limit']).toBe('2');
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setRateLimitStore({ increment: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) });
+
+    const { res, error } = await hitTimes(10, rateLimit('read'));
+    expect(error).toBeUndefined();
+    expect(res.headers['RateLimit-Remaining']).toBeUndefined();
+    expect(consoleError).toHaveBeenCalledTimes(10);
+    consoleError.mockRestore();
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('restores an expiry the key lost', async () => {
+    const client: RedisLikeClient = {
+      incr: jest.fn().mockResolvedValue(4),
+      pexpire: jest.fn().mockResolvedValue(1),
+      pttl: jest.fn().mockResolvedValue(-1),
+    };
+
+    const result = await new RedisRateLimitStore(client).increment('rl:read:ip:1', 60_000);
+    expect(client.pexpire).toHaveBeenCalledWith('rl:read:ip:1', 60_000);
+    expect(result.count).toBe(4);
+    expect(result.resetAt - Date.now()).toBeGreaterThan(59_000);
+  });
+});
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IndexedTask } from '../src/types/task';
+import { cosineSimilarity, HashingEmbeddingProvider } from '../src/services/llm';
+
+const NOW = Math.floor(Date.now() / 1000);
+const WORKER = '0x00000000000000000000000000000000000000aa';
+const CREATOR = '0x00000000000000000000000000000000000000bb';
+
+const METADATA: Record<string, { title: string; description: string }> = {
+  'cid-done-1': { title: 'Solidity escrow contract', description: 'Write and test a Solidity escrow smart contract' },
+  'cid-done-2': { title: 'ERC-20 token audit', description: 'Audit a Solidity token contract for reentrancy' },
+  'cid-open-1': { title: 'Logo design', description: 'Design a logo and brand colours for a coffee shop' },
+  'cid-open-2': { title: 'Staking contract', description: 'Build a Solidity staking smart contract with tests' },
+  'cid-open-3': { title: 'Blog posts', description: 'Write three blog posts about gardening' },
+  'cid-own': { title: 'Solidity vault', description: 'Solidity smart contract vault posted by the worker' },
+};
+
+const task = (id: number, ipfsHash: string, overrides: Partial<IndexedTask> = {}): IndexedTask => ({
+  id,
+  creator: CREATOR,
+  worker: null,
+  ipfsHash,
+  bounty: '100000000000000000000',
+  deadline: NOW + 86400,
+  status: 'Open',
+  category: 'Development',
+  createdAt: NOW - 3600 + id,
+  completedAt: null,
+  submissionHash: null,
+  requiredReputation: '0',
+  isUrgent: false,
+  disputedBy: null,
+  disputeWinner: null,
+  payment: null,
+  updatedAtBlock: 1,
+  ...overrides,
+});
+
+let tasks: IndexedTask[] = [];
+
+jest.mock('../src/services/taskStore', () => ({
+  __esModule: true,
+  default: {
+    getTasks: () => tasks,
+    getTask: (id: number) => tasks.find((t) => t.id === id),
+  },
+}));
+
+jest.mock('../src/services/taskMetadata', () => ({
+  __esModule: true,
+  default: { get: async (cid: string) => METADATA[cid] ?? null },
+}));
+
+// Imported after the mocks are registered
+import { RecommendationEngine } from '../src/services/recommendations';
+
+describe('HashingEmbeddingProvider', () => {
+  it('is deterministic and ranks shared vocabulary higher', async () => {
+    const provider = new HashingEmbeddingProvider();
+    const [a, b, c, again] = await provider.embed([
+      'solidity smart contract audit',
+      'audit a solidity smart contract',
+      'watercolour painting of a garden',
+      'solidity smart contract audit',
+    ]);
+
+    expect(again).toEqual(a);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(cosineSimilarity(a, c));
+  });
+});
+
+describe('RecommendationEngine', () => {
+  let dir: string;
+  let engine: RecommendationEngine;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recommendations-'));
+    engine = new RecommendationEngine(path.join(dir, 'vectors.json'), new HashingEmbeddingProvider());
+    tasks = [
+      task(1, 'cid-done-1', { status: 'Completed', worker: WORKER, completedAt: NOW - 86400 }),
+      task(2, 'cid-done-2', { status: 'Completed', worker: WORKER, completedAt: NOW - 2 * 86400 }),
+      task(3, 'cid-open-1', { category: 'Design' }),
+      task(4, 'cid-open-2'),
+      task(5, 'cid-open-3', { category: 'Writing' }),
+      task(6, 'cid-own', { creator: WORKER }),
+      task(7, 'cid-open-2', { deadline: NOW - 60 }),
+    ];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ranks open tasks by similarity to completed work', async () => {
+    const result = await engine.recommend(WORKER, { limit: 10, skills: [], rerank: false });
+
+    expect(result.basis).toBe('history');
+    expect(result.reranked).toBe(false);
+    // Own tasks and expired tasks are never recommended
+    expect(result.recommendations.map((r) => r.taskId).sort()).toEqual([3, 4, 5]);
+    expect(result.recommendations[0].taskId).toBe(4);
+
+    const scores = result.recommendations.map((r) => r.score!);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('uses declared skills for users without history', async () => {
+    const result = await engine.recommend('0x00000000000000000000000000000000000000cc', {
+      limit: 1,
+      skills: ['gardening', 'blog posts'],
+      rerank: false,
+    });
+
+    expect(result.basis).toBe('skills');
+    expect(result.recommendations.map((r) => r.taskId)).toEqual([5]);
+  });
+
+  it('falls back to the newest tasks without a profile', async () => {
+    const result = await engine.recommend('0x00000000000000000000000000000000000000cc', {
+      limit: 10,
+      skills: [],
+      rerank: false,
+    });
+
+    expect(result.basis).toBe('recent');
+    expect(result.recommendations.map((r) => [r.taskId, r.score])).toEqual([
+      [6, null],
+      [5, null],
+      [4, null],
+      [3, null],
+    ]);
+  });
+
+  it('persists vectors and reuses them for the same model', async () => {
+    await engine.recommend(WORKER, { limit: 10, skills: [], rerank: false });
+    const embed = jest.fn(async (texts: string[]) => new HashingEmbeddingProvider().embed(texts));
+    const reloaded = new RecommendationEngine(path.join(dir, 'vectors.json'), {
+      model: 'local-hashing-512',
+      embed,
+    });
+
+    const result = await reloaded.recommend(WORKER, { limit: 10, skills: [], rerank: false });
+    expect(embed).not.toHaveBeenCalled();
+    expect(result.recommendations[0].taskId).toBe(4);
+  });
+
+  it('keeps every vector when embeds run concurrently', async () => {
+    await Promise.all(tasks.map((t) => engine.similarities('solidity', [t])));
+    const embed = jest.fn(async (texts: string[]) => new HashingEmbeddingProvider().embed(texts));
+    const reloaded = new RecommendationEngine(path.join(dir, 'vectors.json'), {
+      model: 'local-hashing-512',
+      embed,
+    });
+
+    await reloaded.similarities('solidity', tasks);
+    // Only the query is embedded; every task vector was saved
+    expect(embed.mock.calls).toEqual([[['solidity']]]);
+    expect(fs.readdirSync(dir)).toEqual(['vectors.json']);
+  });
+
+  it('keeps every candidate when reranking', async () => {
+    // The rerank goes through the shared service; keep it offline
+    process.env.AI_PROVIDER = 'fixture';
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const result = await engine.recommend(WORKER, { limit: 10, skills: ['solidity'], rerank: true });
+
+    expect(result.reranked).toBe(true);
+    expect(result.rerankProvenance?.source).toBe('fixture');
+    expect(result.recommendations.map((r) => r.taskId).sort()).toEqual([3, 4, 5]);
+  });
+});
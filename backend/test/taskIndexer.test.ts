@@ -0,0 +1,266 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TASK_MANAGER_ABI } from '../src/contracts/abis';
+import { TaskIndexer } from '../src/services/taskIndexer';
+import { TaskStore } from '../src/services/taskStore';
+import { IndexedEvent } from '../src/types/task';
+
+const TASK_MANAGER = '0x00000000000000000000000000000000000000f0';
+const CREATOR = '0x00000000000000000000000000000000000000aa';
+const WORKER = '0x00000000000000000000000000000000000000bb';
+const iface = new ethers.Interface(TASK_MANAGER_ABI);
+
+interface FakeLog {
+  name: string;
+  args: unknown[];
+}
+
+/**
+ * Just enough of a JSON-RPC provider for the indexer: blocks whose hashes
+ * depend on their fork, and TaskManager logs placed in them
+ */
+class FakeChain {
+  head = 0;
+  private forks = new Map<number, string>();
+  private logs = new Map<number, FakeLog[]>();
+  getBlockCalls = 0;
+
+  mine(count: number, logs: Record<number, FakeLog[]> = {}): void {
+    for (let i = 0; i < count; i++) {
+      this.head++;
+      this.forks.set(this.head, 'a');
+      this.logs.set(this.head, logs[this.head] ?? []);
+    }
+  }
+
+  /**
+   * Replace every block from `fromBlock` up with a different fork
+   */
+  reorg(fromBlock: number, logs: Record<number, FakeLog[]> = {}): void {
+    for (let number = fromBlock; number <= this.head; number++) {
+      this.forks.set(number, 'b');
+      this.logs.set(number, logs[number] ?? []);
+    }
+  }
+
+  hash(number: number): string {
+    return ethers.id(`${number}:${this.forks.get(number)}`);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  async getBlock(number: number) {
+    this.getBlockCalls++;
+    return number <= this.head ? { number, hash: this.hash(number), timestamp: 1_700_000_000 + number } : null;
+  }
+
+  async getLogs({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) {
+    const logs = [];
+    for (let number = fromBlock; number <= toBlock; number++) {
+      for (const [index, log] of (this.logs.get(number) ?? []).entries()) {
+        logs.push({
+          ...iface.encodeEventLog(log.name, log.args),
+          blockNumber: number,
+          blockHash: this.hash(number),
+          index,
+          transactionHash: ethers.id(`tx:${number}:${index}`),
+        });
+      }
+    }
+    return logs;
+  }
+
+  // TaskManager.tasks(), read when a TaskCreated event is decoded
+  async call() {
+    return iface.encodeFunctionResult('tasks', [
+      1, CREATOR, ethers.ZeroAddress, 'cid', 100, 2_000_000_000, 0, 0, 0, 0, '', 0, false,
+    ]);
+  }
+}
+
+const created = (taskId: number): FakeLog => ({ name: 'TaskCreated', args: [taskId, CREATOR, 100, 0, `cid-${taskId}`] });
+const assigned = (taskId: number): FakeLog => ({ name: 'TaskAssigned', args: [taskId, WORKER] });
+
+describe('TaskIndexer', () => {
+  let dir: string;
+  let chain: FakeChain;
+
+  // Started and stopped again, so tests drive each sync themselves
+  const startIndexer = async (store = new TaskStore(path.join(dir, 'tasks.json'))) => {
+    const indexer = new TaskIndexer(store, chain as unknown as ethers.JsonRpcProvider);
+    await indexer.start();
+    indexer.stop();
+    return { indexer, store };
+  };
+
+  const syncAll = async (indexer: TaskIndexer) => {
+    while (!(await indexer.syncOnce()));
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-indexer-'));
+    chain = new FakeChain();
+    process.env.TASK_MANAGER_ADDRESS = TASK_MANAGER;
+    process.env.INDEXER_CONFIRMATIONS = '0';
+    process.env.INDEXER_BATCH_SIZE = '10';
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env.TASK_MANAGER_ADDRESS;
+    delete process.env.INDEXER_CONFIRMATIONS;
+    delete process.env.INDEXER_BATCH_SIZE;
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('projects task records from events', async () => {
+    chain.mine(25, { 3: [created(1)], 14: [created(2)], 21: [assigned(1)] });
+    const { indexer, store } = await startIndexer();
+    const events: IndexedEvent[] = [];
+    indexer.on('event', (event) => events.push(event));
+
+    await syncAll(indexer);
+
+    expect(events.map((e) => e.name)).toEqual(['TaskCreated', 'TaskCreated', 'TaskAssigned']);
+    expect(store.getLastProcessedBlock()).toBe(25);
+    expect(store.getTask(1)).toMatchObject({ status: 'Assigned', worker: WORKER, createdAt: 1_700_000_003 });
+    expect(store.getTask(2)).toMatchObject({ status: 'Open', ipfsHash: 'cid-2' });
+  });
+
+  it('resumes from the persisted block after a restart', async () => {
+    chain.mine(12, { 5: [created(1)] });
+    const first = await startIndexer();
+    await syncAll(first.indexer);
+
+    chain.mine(8, { 15: [assigned(1)] });
+    const { indexer, store } = await startIndexer();
+    expect(store.getLastProcessedBlock()).toBe(12);
+    expect(store.getTask(1)!.status).toBe('Open');
+
+    const getLogs = jest.spyOn(chain, 'getLogs');
+    const events: IndexedEvent[] = [];
+    indexer.on('event', (event) => events.push(event));
+    await syncAll(indexer);
+
+    expect(getLogs.mock.calls[0][0]).toMatchObject({ fromBlock: 13, toBlock: 20 });
+    expect(events.map((e) => e.name)).toEqual(['TaskAssigned']);
+    expect(store.getTask(1)!.status).toBe('Assigned');
+    expect(store.getEvents()).toHaveLength(2);
+  });
+
+  it('rolls back to the fork point when a reorg starts inside a batch', async () => {
+    chain.mine(10, { 2: [created(1)], 6: [assigned(1)], 8: [created(2)] });
+    const { indexer, store } = await startIndexer();
+    await syncAll(indexer);
+
+    // Blocks 6-10 were one batch; the new fork drops the assignment and moves task 2
+    chain.reorg(6, { 9: [created(2)] });
+    const reorgs: Array<[number, IndexedEvent[]]> = [];
+    indexer.on('reorg', (forkBlock, dropped) => reorgs.push([forkBlock, dropped]));
+    await syncAll(indexer);
+
+    expect(reorgs).toHaveLength(1);
+    expect(reorgs[0][0]).toBe(5);
+    expect(reorgs[0][1].map((e) => e.name)).toEqual(['TaskAssigned', 'TaskCreated']);
+    expect(store.getTask(1)!.status).toBe('Open');
+    expect(store.getTask(2)!.updatedAtBlock).toBe(9);
+    expect(store.getRecentBlocks().find((b) => b.number === 7)!.hash).toBe(chain.hash(7));
+  });
+
+  it('keeps the rollback across a restart', async () => {
+    chain.mine(10, { 2: [created(1)], 6: [assigned(1)] });
+    const first = await startIndexer();
+    await syncAll(first.indexer);
+    chain.reorg(6);
+    await syncAll(first.indexer);
+
+    const { store } = await startIndexer();
+    expect(store.getEvents().map((e) => e.name)).toEqual(['TaskCreated']);
+    expect(store.getLastProcessedBlock()).toBe(10);
+  });
+
+  it('only fetches block hashes near the head', async () => {
+    process.env.INDEXER_BATCH_SIZE = '1000';
+    chain.mine(600, { 10: [created(1)] });
+    const { indexer, store } = await startIndexer();
+    await syncAll(indexer);
+
+    expect(store.getRecentBlocks()).toHaveLength(256);
+    expect(store.getRecentBlocks()[0].number).toBe(345);
+    // The window plus the block holding the log
+    expect(chain.getBlockCalls).toBe(257);
+  });
+});
+
+describe('TaskStore persistence', () => {
+  let dir: string;
+  let filePath: string;
+
+  const event = (taskId: number, blockNumber: number): IndexedEvent => ({
+    name: 'TaskCreated',
+    taskId,
+    blockNumber,
+    blockHash: ethers.id(String(blockNumber)),
+    logIndex: 0,
+    transactionHash: ethers.id(`tx:${blockNumber}`),
+    timestamp: 1_700_000_000,
+    args: { creator: CREATOR, bounty: '100', category: 'Development', ipfsHash: `cid-${taskId}` },
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-store-'));
+    filePath = path.join(dir, 'tasks.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends new events instead of rewriting the log', async () => {
+    const store = new TaskStore(filePath);
+    store.commit([event(1, 1)], 1, []);
+    await store.save();
+    store.commit([event(2, 2)], 2, []);
+    await store.save();
+
+    const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    expect(snapshot).toEqual({ lastProcessedBlock: 2, recentBlocks: [], eventCount: 2 });
+    expect(fs.readFileSync(path.join(dir, 'tasks.events.jsonl'), 'utf8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('ignores events logged by a batch that never finished', async () => {
+    const store = new TaskStore(filePath);
+    store.commit([event(1, 1)], 1, []);
+    await store.save();
+    fs.appendFileSync(path.join(dir, 'tasks.events.jsonl'), `${JSON.stringify(event(2, 2))}\n{"name":"Task`);
+
+    const restored = new TaskStore(filePath);
+    await restored.load();
+    expect(restored.getTasks().map((t) => t.id)).toEqual([1]);
+
+    restored.commit([event(3, 3)], 3, []);
+    await restored.save();
+    const reloaded = new TaskStore(filePath);
+    await reloaded.load();
+    expect(reloaded.getTasks().map((t) => t.id)).toEqual([1, 3]);
+  });
+
+  it('reads snapshots that still carry the whole event log', async () => {
+    fs.writeFileSync(filePath, JSON.stringify({ lastProcessedBlock: 4, recentBlocks: [], events: [event(1, 4)] }));
+
+    const store = new TaskStore(filePath);
+    await store.load();
+    expect(store.getTask(1)).toBeDefined();
+
+    await store.save();
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).events).toBeUndefined();
+    const reloaded = new TaskStore(filePath);
+    await reloaded.load();
+    expect(reloaded.getTask(1)).toBeDefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { queryTasks, TaskQuery, TaskQuerySchema } from '../src/services/taskQuery';
+import { IndexedTask } from '../src/types/task';
+
+const CREATOR = '0x00000000000000000000000000000000000000aa';
+const WORKER = '0x00000000000000000000000000000000000000bb';
+
+const task = (id: number, overrides: Partial<IndexedTask> = {}): IndexedTask => ({
+  id,
+  creator: CREATOR,
+  worker: null,
+  ipfsHash: `cid-${id}`,
+  bounty: '100',
+  deadline: 2_000_000_000,
+  status: 'Open',
+  category: 'Development',
+  createdAt: 1_700_000_000 + id,
+  completedAt: null,
+  submissionHash: null,
+  requiredReputation: '0',
+  isUrgent: false,
+  disputedBy: null,
+  disputeWinner: null,
+  payment: null,
+  updatedAtBlock: 1,
+  ...overrides,
+});
+
+const query = (params: Record<string, string> = {}): TaskQuery => TaskQuerySchema.parse(params);
+
+// A cursor for the default ordering, newest first
+const cursorOf = (fields: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify({ sortBy: 'createdAt', order: 'desc', ...fields })).toString('base64url');
+
+// Follow nextCursor until the last page, returning the ids in the order served
+const pageThrough = (tasks: IndexedTask[], params: Record<string, string>): number[] => {
+  const ids: number[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = queryTasks(tasks, query({ ...params, ...(cursor ? { cursor } : {}) }));
+    ids.push(...page.tasks.map((t) => t.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+};
+
+describe('queryTasks', () => {
+  // Bounties repeat so most tasks tie with another on the sort key
+  const tasks = Array.from({ length: 11 }, (_, i) => task(i + 1, { bounty: String(((i * 7) % 4) * 10) }));
+
+  it('serves every task once, in order, when paging with the cursor', () => {
+    const all = queryTasks(tasks, query({ sortBy: 'bounty', order: 'asc', limit: '100' }));
+    const paged = pageThrough(tasks, { sortBy: 'bounty', order: 'asc', limit: '3' });
+
+    expect(all.nextCursor).toBeNull();
+    expect(paged).toEqual(all.tasks.map((t) => t.id));
+    expect(new Set(paged).size).toBe(tasks.length);
+  });
+
+  it('breaks ties on the sort key by id in both directions', () => {
+    const tied = [task(3), task(1), task(2)];
+
+    expect(queryTasks(tied, query({ sortBy: 'bounty', order: 'asc' })).tasks.map((t) => t.id)).toEqual([1, 2, 3]);
+    expect(queryTasks(tied, query({ sortBy: 'bounty', order: 'desc' })).tasks.map((t) => t.id)).toEqual([3, 2, 1]);
+    expect(pageThrough(tied, { sortBy: 'bounty', order: 'desc', limit: '1' })).toEqual([3, 2, 1]);
+  });
+
+  it('picks up after the cursor even when that task has gone', () => {
+    const first = queryTasks(tasks, query({ limit: '4' }));
+    const remaining = tasks.filter((t) => t.id !== first.tasks[3].id);
+
+    const next = queryTasks(remaining, query({ limit: '4', cursor: first.nextCursor! }));
+    expect(next.tasks.map((t) => t.id)).toEqual([7, 6, 5, 4]);
+  });
+
+  it.each([
+    ['not base64 JSON', '!!!'],
+    ['a missing id', cursorOf({ value: '10' })],
+    ['a non-numeric value', cursorOf({ value: '1e3', id: 1 })],
+    ['a negative value', cursorOf({ value: '-1', id: 1 })],
+    ['no ordering', Buffer.from(JSON.stringify({ value: '10', id: 1 })).toString('base64url')],
+  ])('answers a cursor with %s with a 400', (_name, cursor) => {
+    expect(() => queryTasks(tasks, query({ cursor }))).toThrow(
+      expect.objectContaining({ statusCode: 400, message: 'Invalid cursor' })
+    );
+  });
+
+  it('answers a cursor from a different ordering with a 400', () => {
+    const { nextCursor } = queryTasks(tasks, query({ sortBy: 'bounty', order: 'asc', limit: '3' }));
+
+    expect(() => queryTasks(tasks, query({ sortBy: 'bounty', order: 'desc', cursor: nextCursor! }))).toThrow(
+      expect.objectContaining({ statusCode: 400, message: 'Invalid cursor' })
+    );
+    expect(() => queryTasks(tasks, query({ sortBy: 'deadline', order: 'asc', cursor: nextCursor! }))).toThrow(
+      expect.objectContaining({ statusCode: 400, message: 'Invalid cursor' })
+    );
+  });
+
+  it('applies the filters together', () => {
+    const pool = [
+      task(1, { status: 'Assigned', worker: WORKER, bounty: '500' }),
+      task(2, { status: 'Assigned', worker: WORKER, bounty: '50' }),
+      task(3, { status: 'Open', bounty: '500', isUrgent: true }),
+      task(4, { status: 'Completed', worker: WORKER, bounty: '900', category: 'Design' }),
+    ];
+
+    const page = queryTasks(pool, query({ status: 'Assigned,Completed', worker: WORKER, minBounty: '100' }));
+    expect(page.tasks.map((t) => t.id)).toEqual([4, 1]);
+    expect(queryTasks(pool, query({ isUrgent: 'true' })).tasks.map((t) => t.id)).toEqual([3]);
+    expect(queryTasks(pool, query({ category: 'Design' })).tasks.map((t) => t.id)).toEqual([4]);
+  });
+});
+
+describe('TaskQuerySchema', () => {
+  it.each([
+    [{ minBounty: '10', maxBounty: '5' }],
+    [{ deadlineAfter: '20', deadlineBefore: '10' }],
+    [{ status: 'Open,Lost' }],
+    [{ creator: '0x1234' }],
+    [{ limit: '101' }],
+  ])('rejects %j', (params) => {
+    expect(TaskQuerySchema.safeParse(params).success).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import { IndexedEvent, IndexedTask } from '../src/types/task';
+
+const mockTasks = new Map<number, Partial<IndexedTask>>();
+const mockMetadata: Record<string, Record<string, unknown>> = {
+  'cid-1': { title: 'Solidity escrow contract', description: 'Write an escrow contract with tests' },
+  'cid-2': { title: 'Logo design', description: 'Design a logo; the landing page mentions an escrow once' },
+  'cid-3': { title: 'Escrow audit', description: 'Review a Solidity escrow for reentrancy', requirements: ['Report'] },
+};
+
+jest.mock('../src/services/taskStore', () => ({
+  __esModule: true,
+  default: {
+    getTask: (id: number) => mockTasks.get(id),
+    getTasks: () => Array.from(mockTasks.values()),
+  },
+}));
+
+jest.mock('../src/services/taskMetadata', () => ({
+  __esModule: true,
+  default: { get: async (cid: string) => mockMetadata[cid] ?? null },
+}));
+
+// Imported after the mocks are registered
+import { TaskSearchIndex } from '../src/services/taskSearch';
+import type { TaskIndexer } from '../src/services/taskIndexer';
+
+const fields = (title: string, description = '') => ({ title, description, requirements: '', deliverables: '' });
+
+const createdEvent = (taskId: number): IndexedEvent => ({
+  name: 'TaskCreated',
+  taskId,
+  blockNumber: 10,
+  blockHash: '0x',
+  logIndex: 0,
+  transactionHash: '0x',
+  timestamp: 1_700_000_000,
+  args: {},
+});
+
+// Let the indexing started from an event handler finish
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('TaskSearchIndex', () => {
+  let index: TaskSearchIndex;
+
+  beforeEach(() => {
+    index = new TaskSearchIndex();
+    mockTasks.clear();
+  });
+
+  it('ranks title matches and rarer terms higher', () => {
+    index.addDocument(1, fields('Escrow contract', 'Solidity work'));
+    index.addDocument(2, fields('Logo design', 'Mentions escrow in passing among many other words here'));
+    index.addDocument(3, fields('Token audit', 'Solidity review'));
+
+    expect(index.search('escrow').map((r) => r.taskId)).toEqual([1, 2]);
+    // Tasks 1 and 3 match "solidity"; only task 1 matches both terms
+    expect(index.search('solidity escrow').map((r) => r.taskId)).toEqual([1, 3, 2]);
+  });
+
+  it('orders equal scores by task id', () => {
+    index.addDocument(7, fields('Website copy'));
+    index.addDocument(4, fields('Website copy'));
+
+    const results = index.search('website');
+    expect(results.map((r) => r.taskId)).toEqual([4, 7]);
+    expect(results[0].score).toBe(results[1].score);
+  });
+
+  it('matches the last term as a prefix and ignores stop words', () => {
+    index.addDocument(1, fields('Smart contract review'));
+
+    expect(index.search('smart contr').map((r) => r.taskId)).toEqual([1]);
+    expect(index.search('the and of')).toEqual([]);
+  });
+
+  it('escapes HTML in highlights and only marks matched terms', () => {
+    index.addDocument(1, fields('<script>alert("x")</script> escrow & "payments"'));
+
+    expect(index.search('escrow')[0].highlights.title).toBe(
+      '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; <mark>escrow</mark> &amp; &quot;payments&quot;'
+    );
+    // A term spelled like markup is escaped inside the mark too
+    expect(index.search('script')[0].highlights.title).toContain('&lt;<mark>script</mark>&gt;');
+  });
+
+  it('trims long fields to a snippet around the first match', () => {
+    const filler = 'lorem ipsum '.repeat(20);
+    index.addDocument(1, fields('Task', `${filler}escrow ${filler}`));
+
+    const snippet = index.search('escrow')[0].highlights.description!;
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>escrow</mark>');
+  });
+
+  it('follows the indexer and drops tasks a reorg removed', async () => {
+    mockTasks.set(1, { id: 1, ipfsHash: 'cid-1' });
+    const indexer = new EventEmitter();
+    await index.attach(indexer as unknown as TaskIndexer);
+    expect(index.size()).toBe(1);
+
+    mockTasks.set(2, { id: 2, ipfsHash: 'cid-2' });
+    mockTasks.set(3, { id: 3, ipfsHash: 'cid-3' });
+    indexer.emit('event', createdEvent(2));
+    indexer.emit('event', createdEvent(3));
+    await flush();
+    expect(index.search('escrow').map((r) => r.taskId).sort()).toEqual([1, 2, 3]);
+
+    indexer.emit('reorg', 9, [createdEvent(3), { ...createdEvent(1), name: 'TaskAssigned' }]);
+    expect(index.size()).toBe(2);
+    expect(index.search('reentrancy')).toEqual([]);
+    expect(index.search('escrow').map((r) => r.taskId)).toEqual([1, 2]);
+  });
+
+  it('keeps postings consistent when a task is indexed twice', () => {
+    index.addDocument(1, fields('Escrow contract'));
+    index.addDocument(1, fields('Logo design'));
+
+    expect(index.size()).toBe(1);
+    expect(index.search('escrow')).toEqual([]);
+    expect(index.search('logo').map((r) => r.taskId)).toEqual([1]);
+  });
+});
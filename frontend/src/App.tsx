@@ -8,6 +8,7 @@ import { ProfilePage } from './pages/ProfilePage'
 import { DAOPage } from './pages/DAOPage'
 import { LeaderboardPage } from './pages/LeaderboardPage'
 import { StakingPage } from './pages/StakingPage'
+import { AdminPage } from './pages/AdminPage'
 
 function App() {
   return (
@@ -23,6 +24,7 @@ function App() {
           <Route path="/dao" element={<DAOPage />} />
           <Route path="/leaderboard" element={<LeaderboardPage />} />
           <Route path="/staking" element={<StakingPage />} />
+          <Route path="/admin" element={<AdminPage />} />
         </Routes>
       </main>
     </div>
@@ -1,10 +1,12 @@
 import { Link } from 'react-router-dom'
 import { useWeb3 } from '@/contexts/Web3Context'
+import { useIsAdmin } from '@/hooks/useIsAdmin'
 import { Wallet, Menu, X } from 'lucide-react'
 import { useState } from 'react'
 
 export const Navbar = () => {
-  const { account, isConnected, connect, disconnect, isConnecting } = useWeb3()
+  const { account, isConnected, connect, disconnect, isConnecting, isAuthenticated, isSigningIn, signIn } = useWeb3()
+  const isAdmin = useIsAdmin()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
 
   const formatAddress = (address: string) => {
@@ -57,6 +59,14 @@ export const Navbar = () => {
             >
               Staking
             </Link>
+            {isAdmin && (
+              <Link
+                to="/admin"
+                className="text-gray-700 dark:text-gray-300 hover:text-primary-600 transition"
+              >
+                Admin
+              </Link>
+            )}
           </div>
 
           {/* Wallet Connection */}
@@ -69,6 +79,15 @@ export const Navbar = () => {
                 >
                   Profile
                 </Link>
+                {!isAuthenticated && (
+                  <button
+                    onClick={signIn}
+                    disabled={isSigningIn}
+                    className="btn btn-primary"
+                  >
+                    {isSigningIn ? 'Signing In...' : 'Sign In'}
+                  </button>
+                )}
                 <button
                   onClick={disconnect}
                   className="btn btn-outline flex items-center space-x-2"
@@ -136,6 +155,15 @@ export const Navbar = () => {
             >
               Staking
             </Link>
+            {isAdmin && (
+              <Link
+                to="/admin"
+                className="block text-gray-700 dark:text-gray-300 hover:text-primary-600"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Admin
+              </Link>
+            )}
             {isConnected && (
               <Link
                 to={`/profile/${account}`}
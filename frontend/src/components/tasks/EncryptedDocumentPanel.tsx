@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react'
+import { Lock, Share2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { SubmissionDocument } from '@shared/documents'
+import { isEncryptedDocument } from '@shared/encryption'
+import { useWeb3 } from '@/contexts/Web3Context'
+import {
+  EncryptedDocument,
+  fetchDocument,
+  fetchDocumentKeys,
+  fetchEncryptionKey,
+  fileUrl,
+  grantDocumentKeys,
+  registerEncryptionKey,
+  Task,
+  TaskDocument,
+  TaskMetadata,
+  WrappedKey,
+} from '@/lib/api'
+import { decryptDocument, deriveEncryptionKey, shareDocumentKey } from '@/lib/encryption'
+
+interface EncryptedDocumentPanelProps {
+  task: Task
+  document: TaskDocument
+  /** Receives the decrypted brief; submissions are shown in the panel */
+  onDecrypt?: (metadata: TaskMetadata) => void
+}
+
+/**
+ * Decrypt and share a task's end-to-end encrypted brief or submission.
+ * Renders nothing when the document is not encrypted.
+ */
+export const EncryptedDocumentPanel = ({ task, document, onDecrypt }: EncryptedDocumentPanelProps) => {
+  const { account, signer, isAuthenticated } = useWeb3()
+  const [envelope, setEnvelope] = useState<EncryptedDocument | null>(null)
+  const [grants, setGrants] = useState<{ key: WrappedKey | null; recipients: string[] } | null>(null)
+  const [submission, setSubmission] = useState<SubmissionDocument | null>(null)
+  const [resolver, setResolver] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+
+  const cid = document === 'brief' ? task.ipfsHash : task.submissionHash
+
+  useEffect(() => {
+    if (!cid) return
+    fetchDocument(cid)
+      .then((raw) => setEnvelope(isEncryptedDocument(raw) ? (raw as EncryptedDocument) : null))
+      .catch(() => setEnvelope(null))
+  }, [cid])
+
+  useEffect(() => {
+    if (!envelope || !isAuthenticated) return
+    fetchDocumentKeys(task.id, document)
+      .then(setGrants)
+      .catch(() => setGrants(null))
+  }, [envelope, isAuthenticated, task.id, document])
+
+  if (!envelope) return null
+
+  const address = account?.toLowerCase()
+  const parties = [task.creator, task.worker].filter((party): party is string => !!party).map((p) => p.toLowerCase())
+  const isParty = !!address && parties.includes(address)
+  const readers = new Set([...envelope.keys.map((key) => key.recipient), ...(grants?.recipients ?? [])])
+  const missingParties = parties.filter((party) => !readers.has(party))
+
+  const decrypt = async () => {
+    if (!signer) return
+    setIsBusy(true)
+    try {
+      // Registering lets a task party share the document with this wallet
+      await registerEncryptionKey((await deriveEncryptionKey(signer)).compressedPublicKey)
+      if (document === 'brief') {
+        onDecrypt?.(await decryptDocument('task', envelope, signer, grants?.key))
+      } else {
+        setSubmission(await decryptDocument('submission', envelope, signer, grants?.key))
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.message || 'Failed to decrypt')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const share = async (recipient: string) => {
+    if (!signer) return
+    setIsBusy(true)
+    try {
+      const publicKey = await fetchEncryptionKey(recipient)
+      if (!publicKey) {
+        toast.error(`${recipient} has not set up encryption yet`)
+        return
+      }
+      const keys = await shareDocumentKey(envelope, signer, [{ address: recipient, publicKey }], grants?.key)
+      await grantDocumentKeys(task.id, document, keys)
+      setGrants(await fetchDocumentKeys(task.id, document))
+      toast.success(`Shared with ${recipient}`)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.message || 'Failed to share')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="card space-y-3 text-sm">
+      <p className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+        <Lock size={16} />
+        This {document} is end-to-end encrypted. Only the wallets it has been shared with can read it.
+      </p>
+
+      {!isAuthenticated ? (
+        <p className="text-gray-500">Sign in to decrypt it.</p>
+      ) : (
+        !submission && (
+          <button onClick={decrypt} disabled={isBusy} className="btn btn-outline disabled:opacity-50">
+            {isBusy ? 'Working...' : `Decrypt ${document}`}
+          </button>
+        )
+      )}
+
+      {submission && (
+        <div className="space-y-2">
+          <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{submission.summary}</p>
+          {[...submission.links, ...submission.attachments.map((file) => fileUrl(file.cid))].map((link) => (
+            <a key={link} href={link} target="_blank" rel="noreferrer" className="block text-primary-600 hover:underline">
+              {link}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {isAuthenticated && isParty && (
+        <div className="flex flex-wrap gap-2">
+          {missingParties
+            .filter((party) => party !== address)
+            .map((party) => (
+              <button
+                key={party}
+                onClick={() => share(party)}
+                disabled={isBusy}
+                className="btn btn-secondary flex items-center gap-2 disabled:opacity-50"
+              >
+                <Share2 size={14} /> Share with {party === task.creator.toLowerCase() ? 'creator' : 'worker'}
+              </button>
+            ))}
+          {task.status === 'Disputed' && (
+            <>
+              <input
+                value={resolver}
+                onChange={(event) => setResolver(event.target.value.trim())}
+                placeholder="Dispute resolver address"
+                className="input flex-1"
+              />
+              <button
+                onClick={() => share(resolver)}
+                disabled={isBusy || !/^0x[0-9a-fA-F]{40}$/.test(resolver)}
+                className="btn btn-secondary flex items-center gap-2 disabled:opacity-50"
+              >
+                <Share2 size={14} /> Share with resolver
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
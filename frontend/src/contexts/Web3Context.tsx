@@ -1,6 +1,33 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import { ethers } from 'ethers'
 import toast from 'react-hot-toast'
+import { AuthSession, buildSiweMessage, fetchNonce, setAuthToken, verifySignIn } from '@/lib/api'
+import { secureStorage } from '@/lib/security'
+
+const SESSION_STORAGE_KEY = 'authSession'
+
+interface StoredSession {
+  token: string
+  session: AuthSession
+}
+
+// Load a stored session for this address, dropping it if it has expired
+const loadStoredSession = (address: string): StoredSession | null => {
+  const raw = secureStorage.get(SESSION_STORAGE_KEY)
+  if (!raw) return null
+
+  try {
+    const stored: StoredSession = JSON.parse(raw)
+    const valid =
+      stored.session.address.toLowerCase() === address.toLowerCase() &&
+      stored.session.expiresAt * 1000 > Date.now()
+    if (valid) return stored
+  } catch (e) {
+    console.error('Invalid stored session:', e)
+  }
+  secureStorage.remove(SESSION_STORAGE_KEY)
+  return null
+}
 
 interface Web3ContextType {
   provider: ethers.BrowserProvider | null
@@ -9,8 +36,13 @@ interface Web3ContextType {
   chainId: number | null
   isConnected: boolean
   isConnecting: boolean
+  session: AuthSession | null
+  isAuthenticated: boolean
+  isSigningIn: boolean
   connect: () => Promise<void>
   disconnect: () => void
+  signIn: () => Promise<void>
+  signOut: () => void
   switchNetwork: (chainId: number) => Promise<void>
 }
 
@@ -34,10 +66,51 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
   const [account, setAccount] = useState<string | null>(null)
   const [chainId, setChainId] = useState<number | null>(null)
   const [isConnecting, setIsConnecting] = useState(false)
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [isSigningIn, setIsSigningIn] = useState(false)
 
   const isConnected = !!account
+  const isAuthenticated = !!session && !!account && session.address.toLowerCase() === account.toLowerCase()
 
-  const connect = async () => {
+  const applySession = (stored: StoredSession | null) => {
+    setAuthToken(stored?.token ?? null)
+    setSession(stored?.session ?? null)
+  }
+
+  // Sign-In with Ethereum against the backend
+  const authenticate = async (signer: ethers.Signer, address: string, chainId: number) => {
+    try {
+      setIsSigningIn(true)
+      const nonce = await fetchNonce()
+      const message = buildSiweMessage(ethers.getAddress(address), chainId, nonce)
+      const signature = await signer.signMessage(message)
+      const stored = await verifySignIn(message, signature)
+
+      secureStorage.set(SESSION_STORAGE_KEY, JSON.stringify(stored))
+      applySession(stored)
+      toast.success('Signed in!')
+    } catch (error: any) {
+      console.error('Sign-in error:', error)
+      toast.error(error.response?.data?.message || error.message || 'Failed to sign in')
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  const signIn = async () => {
+    if (!signer || !account || !chainId) {
+      toast.error('Connect your wallet first')
+      return
+    }
+    await authenticate(signer, account, chainId)
+  }
+
+  const signOut = () => {
+    secureStorage.remove(SESSION_STORAGE_KEY)
+    applySession(null)
+  }
+
+  const connectWallet = async (promptSignIn: boolean) => {
     if (!window.ethereum) {
       toast.error('Please install MetaMask!')
       window.open('https://metamask.io/download/', '_blank')
@@ -60,6 +133,14 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
       localStorage.setItem('walletConnected', 'true')
 
       toast.success('Wallet connected!')
+
+      // Reuse a stored session; only prompt for a signature on explicit connect
+      const stored = loadStoredSession(accounts[0])
+      if (stored) {
+        applySession(stored)
+      } else if (promptSignIn) {
+        await authenticate(signer, accounts[0], Number(network.chainId))
+      }
     } catch (error: any) {
       console.error('Connection error:', error)
       toast.error(error.message || 'Failed to connect wallet')
@@ -68,7 +149,10 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     }
   }
 
+  const connect = () => connectWallet(true)
+
   const disconnect = () => {
+    signOut()
     setProvider(null)
     setSigner(null)
     setAccount(null)
@@ -145,7 +229,7 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
   useEffect(() => {
     const wasConnected = localStorage.getItem('walletConnected')
     if (wasConnected === 'true' && window.ethereum) {
-      connect()
+      connectWallet(false)
     }
   }, [])
 
@@ -158,6 +242,7 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
         disconnect()
       } else {
         setAccount(accounts[0])
+        applySession(loadStoredSession(accounts[0]))
         toast.success('Account changed')
       }
     }
@@ -210,8 +295,13 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     chainId,
     isConnected,
     isConnecting,
+    session,
+    isAuthenticated,
+    isSigningIn,
     connect,
     disconnect,
+    signIn,
+    signOut,
     switchNetwork,
   }
 
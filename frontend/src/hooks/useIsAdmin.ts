@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react'
+import { useWeb3 } from '@/contexts/Web3Context'
+import { isTaskManagerAdmin } from '@/lib/contracts'
+
+/**
+ * Whether the connected wallet holds ADMIN_ROLE on TaskManager; null while checking
+ */
+export const useIsAdmin = (): boolean | null => {
+  const { signer, account } = useWeb3()
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    if (!signer || !account) {
+      setIsAdmin(false)
+      return
+    }
+
+    let cancelled = false
+    setIsAdmin(null)
+    isTaskManagerAdmin(signer, account)
+      .then((result) => !cancelled && setIsAdmin(result))
+      .catch(() => !cancelled && setIsAdmin(false))
+    return () => {
+      cancelled = true
+    }
+  }, [signer, account])
+
+  return isAdmin
+}
@@ -0,0 +1,328 @@
+import axios from 'axios';
+import type { DocumentKind, FileReference, TaskMetadata } from '@shared/documents';
+import type { EncryptedDocument, WrappedKey } from '@shared/encryption';
+
+export type { FileReference, TaskMetadata };
+
+/**
+ * Backend API client. The session token is attached to every request once
+ * the user has signed in with their wallet.
+ */
+export const api = axios.create({
+  baseURL: import.meta.env.VITE_API_URL || '/api',
+});
+
+let authToken: string | null = null;
+
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+api.interceptors.request.use((config) => {
+  if (authToken) {
+    config.headers.Authorization = `Bearer ${authToken}`;
+  }
+  return config;
+});
+
+export interface AuthSession {
+  address: string;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Build an EIP-4361 message for the current site
+export const buildSiweMessage = (address: string, chainId: number, nonce: string): string => {
+  const { host, origin } = window.location;
+  return [
+    `${host} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    'Sign in to Task Chainz',
+    '',
+    `URI: ${origin}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join('\n');
+};
+
+export const fetchNonce = async (): Promise<string> => {
+  const { data } = await api.get<{ nonce: string }>('/auth/nonce');
+  return data.nonce;
+};
+
+export const verifySignIn = async (
+  message: string,
+  signature: string,
+): Promise<{ token: string; session: AuthSession }> => {
+  const { data } = await api.post('/auth/verify', { message, signature });
+  return data;
+};
+
+export type TaskTemplate = Pick<TaskMetadata, 'title' | 'description' | 'requirements' | 'deliverables'>;
+
+export interface AIProvenance {
+  /** `fixture`: canned offline replies from a development backend */
+  source: 'model' | 'fixture' | 'fallback';
+  model: string | null;
+  attempts: number;
+  safety: {
+    injection: Array<{ pattern: string; field: string; excerpt: string; weight: number }>;
+    echoedInstructions: boolean;
+  };
+  error?: string;
+}
+
+interface TemplateStreamHandlers {
+  onPartial: (draft: Partial<TaskTemplate>, attempt: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Generate a task template over Server-Sent Events. Partial drafts are
+ * reported as they arrive; abort the signal to cancel generation.
+ */
+export const streamTaskTemplate = async (
+  briefDescription: string,
+  { onPartial, signal }: TemplateStreamHandlers,
+): Promise<{ template: TaskTemplate; provenance: AIProvenance }> => {
+  // axios can't read a response body incrementally in the browser
+  const response = await fetch(`${api.defaults.baseURL}/ai/generate-template/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    },
+    body: JSON.stringify({ briefDescription }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Template generation failed (${response.status})`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = raw.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] ?? 'null');
+      if (event === 'partial') onPartial(data.draft, data.attempt);
+      if (event === 'complete') return data;
+      if (event === 'error') throw new Error(data.message);
+    }
+  }
+  throw new Error('Template stream ended unexpectedly');
+};
+
+export interface DisputeProposal {
+  proposalId: string;
+  taskId: number;
+  creator: string;
+  worker: string;
+  evidenceHash: string;
+  resolved: boolean;
+  favorCreator: boolean;
+  state: string | null;
+  blockNumber: number | null;
+}
+
+export interface DisputeBrief {
+  summary: string;
+  creatorClaims: string[];
+  workerClaims: string[];
+  requirements: Array<{ requirement: string; status: 'met' | 'missed' | 'unclear'; notes: string }>;
+  openQuestions: string[];
+}
+
+export interface DisputeSummary {
+  proposal: DisputeProposal;
+  brief: DisputeBrief;
+  missingDocuments: string[];
+  provenance: AIProvenance;
+}
+
+export const fetchDisputes = async (): Promise<DisputeProposal[]> => {
+  const { data } = await api.get<{ proposals: DisputeProposal[] }>('/disputes');
+  return data.proposals;
+};
+
+export const summarizeDispute = async (proposalId: string): Promise<DisputeSummary> => {
+  const { data } = await api.post<DisputeSummary>('/ai/summarize-dispute', { proposalId });
+  return data;
+};
+
+export interface Task {
+  id: number;
+  creator: string;
+  worker: string | null;
+  ipfsHash: string;
+  bounty: string;
+  deadline: number;
+  status: 'Open' | 'Assigned' | 'Submitted' | 'Completed' | 'Disputed' | 'Cancelled';
+  category: string;
+  createdAt: number;
+  completedAt: number | null;
+  submissionHash: string | null;
+  requiredReputation: string;
+  isUrgent: boolean;
+  /** Migrated to the current schema; null when it could not be read */
+  metadata: TaskMetadata | null;
+}
+
+/**
+ * Where an uploaded file can be downloaded with its original name and type
+ */
+export const fileUrl = (cid: string) => `${api.defaults.baseURL}/ipfs/files/${cid}`;
+
+export interface ChecklistEntry {
+  id: string;
+  kind: 'requirement' | 'deliverable';
+  item: string;
+  status: 'met' | 'partial' | 'missing';
+  reason: string;
+  confidence: number;
+}
+
+export interface SubmissionReview {
+  taskId: number;
+  submissionHash: string;
+  advisory: true;
+  checklist: ChecklistEntry[];
+  summary: string;
+  provenance: AIProvenance;
+}
+
+export const fetchTask = async (id: string): Promise<Task> => {
+  const { data } = await api.get<{ task: Task }>(`/tasks/${id}`);
+  return data.task;
+};
+
+/**
+ * Raw document JSON from IPFS, e.g. to check whether a task's brief is encrypted
+ */
+export const fetchDocument = async (cid: string): Promise<unknown> => {
+  const { data } = await api.get<{ data: unknown }>(`/ipfs/${cid}`);
+  return data.data;
+};
+
+export const uploadDocument = async (kind: DocumentKind, document: unknown): Promise<string> => {
+  const { data } = await api.post<{ cid: string }>('/ipfs/upload', { kind, data: document });
+  return data.cid;
+};
+
+export const registerEncryptionKey = async (publicKey: string): Promise<void> => {
+  await api.put('/users/me/encryption-key', { publicKey });
+};
+
+/**
+ * A wallet's encryption public key, or null when it has not registered one
+ */
+export const fetchEncryptionKey = async (address: string): Promise<string | null> => {
+  try {
+    const { data } = await api.get<{ key: { publicKey: string } }>(`/users/${address}/encryption-key`);
+    return data.key.publicKey;
+  } catch (error: any) {
+    if (error.response?.status === 404) return null;
+    throw error;
+  }
+};
+
+export type TaskDocument = 'brief' | 'submission';
+
+export const fetchDocumentKeys = async (
+  taskId: number,
+  document: TaskDocument,
+): Promise<{ key: WrappedKey | null; recipients: string[] }> => {
+  const { data } = await api.get(`/tasks/${taskId}/keys/${document}`);
+  return data;
+};
+
+export const grantDocumentKeys = async (taskId: number, document: TaskDocument, keys: WrappedKey[]): Promise<string[]> => {
+  const { data } = await api.post<{ granted: string[] }>(`/tasks/${taskId}/keys/${document}`, { keys });
+  return data.granted;
+};
+
+export type { EncryptedDocument, WrappedKey };
+
+export const reviewSubmission = async (taskId: number): Promise<SubmissionReview> => {
+  const { data } = await api.post<SubmissionReview>('/ai/review-submission', { taskId });
+  return data;
+};
+
+export type ModerationStatus = 'open' | 'dismissed' | 'hidden' | 'cancelRecommended';
+export type ModerationAction = 'dismiss' | 'hide' | 'recommendCancel';
+export type ModerationSubject = { type: 'task'; taskId: number } | { type: 'user'; address: string };
+
+export interface FraudSignal {
+  id: string;
+  value: number | string | null;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface ModerationFlag {
+  source: 'fraud' | 'report';
+  reasons: string[];
+  createdAt: number;
+  reporter?: string;
+  fraud?: { score: number; level: 'low' | 'medium' | 'high'; threshold: number; signals: FraudSignal[] };
+}
+
+export interface ModerationItem {
+  id: number;
+  subject: ModerationSubject;
+  status: ModerationStatus;
+  flags: ModerationFlag[];
+  createdAt: number;
+  updatedAt: number;
+  task: (Omit<Task, 'metadata'> & { title: string | null }) | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  itemId: number;
+  action: 'flag' | 'report' | ModerationAction;
+  actor: string;
+  fromStatus: ModerationStatus | null;
+  toStatus: ModerationStatus;
+  note: string | null;
+  at: number;
+}
+
+export const reportContent = async (subject: ModerationSubject, reason: string): Promise<void> => {
+  await api.post('/moderation/reports', { subject, reason });
+};
+
+export const fetchModerationQueue = async (status?: ModerationStatus): Promise<ModerationItem[]> => {
+  const { data } = await api.get<{ items: ModerationItem[] }>('/moderation/queue', { params: { status } });
+  return data.items;
+};
+
+export const moderateItem = async (
+  itemId: number,
+  action: ModerationAction,
+  note?: string,
+): Promise<ModerationItem> => {
+  const { data } = await api.post<{ item: ModerationItem }>(`/moderation/items/${itemId}/actions`, { action, note });
+  return data.item;
+};
+
+export const fetchModerationAudit = async (): Promise<AuditEntry[]> => {
+  const { data } = await api.get<{ entries: AuditEntry[] }>('/moderation/audit');
+  return data.entries;
+};
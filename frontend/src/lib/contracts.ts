@@ -0,0 +1,28 @@
+import { ethers } from 'ethers';
+
+const TASK_MANAGER_ABI = [
+  'function approveTask(uint256 taskId)',
+  'function initiateDispute(uint256 taskId)',
+  'function cancelTask(uint256 taskId)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+];
+
+export const ADMIN_ROLE = ethers.id('ADMIN_ROLE');
+
+/**
+ * TaskManager bound to the connected wallet
+ */
+export const getTaskManager = (signer: ethers.Signer): ethers.Contract => {
+  const address = import.meta.env.VITE_TASK_MANAGER_ADDRESS;
+  if (!address) {
+    throw new Error('TaskManager address is not configured');
+  }
+  return new ethers.Contract(address, TASK_MANAGER_ABI, signer);
+};
+
+/**
+ * Whether the account holds ADMIN_ROLE on TaskManager
+ */
+export const isTaskManagerAdmin = async (signer: ethers.Signer, account: string): Promise<boolean> => {
+  return getTaskManager(signer).hasRole(ADMIN_ROLE, account);
+};
@@ -0,0 +1,173 @@
+import { ethers } from 'ethers';
+import { DocumentKind, DocumentOf, parseDocument } from '@shared/documents';
+import type { EncryptedDocument, WrappedKey } from '@shared/encryption';
+
+/**
+ * End-to-end encryption for private task briefs and submissions. Documents
+ * are encrypted in the browser with a random AES-256-GCM key; that key is
+ * wrapped for each reader with their encryption public key. A wallet's
+ * encryption key pair is derived from its signature of a fixed message, so
+ * it can be recreated on any device and the backend never sees plaintext.
+ */
+
+export type { EncryptedDocument, WrappedKey };
+
+export interface EncryptionRecipient {
+  address: string;
+  /** Compressed secp256k1 public key registered by the recipient */
+  publicKey: string;
+}
+
+const KEY_DERIVATION_MESSAGE =
+  'Task Chainz encryption key\n\n' +
+  'Signing this message unlocks your private tasks and submissions. ' +
+  'Only sign it on the Task Chainz site.';
+
+const WRAP_INFO = ethers.toUtf8Bytes('task-chainz/wrapped-key/v1');
+
+// Derived keys are kept for the session so the wallet asks once
+const derivedKeys = new Map<string, ethers.SigningKey>();
+
+/**
+ * The connected wallet's encryption key pair. Wallets sign deterministically,
+ * so the same account always derives the same key.
+ */
+export const deriveEncryptionKey = async (signer: ethers.Signer): Promise<ethers.SigningKey> => {
+  const address = (await signer.getAddress()).toLowerCase();
+  let key = derivedKeys.get(address);
+  if (!key) {
+    const signature = await signer.signMessage(KEY_DERIVATION_MESSAGE);
+    key = new ethers.SigningKey(ethers.keccak256(signature));
+    derivedKeys.set(address, key);
+  }
+  return key;
+};
+
+// WebCrypto wants bytes backed by a plain ArrayBuffer
+const bytes = (data: ethers.BytesLike) => new Uint8Array(ethers.getBytes(data));
+
+const aesKey = (raw: Uint8Array, usages: KeyUsage[]) =>
+  crypto.subtle.importKey('raw', bytes(raw), { name: 'AES-GCM' }, false, usages);
+
+// AES key for wrapping, from ECDH between an ephemeral key and the recipient's key
+const wrappingKey = async (privateKey: ethers.SigningKey, publicKey: string, ephemeralPublicKey: string) => {
+  // x coordinate of the shared point
+  const secret = bytes(privateKey.computeSharedSecret(publicKey)).slice(1, 33);
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: bytes(ephemeralPublicKey), info: bytes(WRAP_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const wrapKey = async (contentKey: Uint8Array, recipient: EncryptionRecipient): Promise<WrappedKey> => {
+  const ephemeral = new ethers.SigningKey(ethers.randomBytes(32));
+  const iv = bytes(ethers.randomBytes(12));
+  const key = await wrappingKey(ephemeral, recipient.publicKey, ephemeral.compressedPublicKey);
+  const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes(contentKey));
+  return {
+    recipient: recipient.address.toLowerCase(),
+    algorithm: 'ecies-secp256k1-hkdf-sha256-aes-256-gcm',
+    ephemeralPublicKey: ephemeral.compressedPublicKey,
+    iv: ethers.encodeBase64(iv),
+    wrappedKey: ethers.encodeBase64(new Uint8Array(wrapped)),
+  };
+};
+
+const unwrapKey = async (wrapped: WrappedKey, privateKey: ethers.SigningKey): Promise<Uint8Array> => {
+  const key = await wrappingKey(privateKey, wrapped.ephemeralPublicKey, wrapped.ephemeralPublicKey);
+  try {
+    const contentKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes(ethers.decodeBase64(wrapped.iv)) },
+      key,
+      bytes(ethers.decodeBase64(wrapped.wrappedKey)),
+    );
+    return new Uint8Array(contentKey);
+  } catch {
+    throw new Error('This key was not issued to your wallet');
+  }
+};
+
+// Content key of a document, unwrapped with the connected wallet's key
+const contentKeyFor = async (
+  envelope: EncryptedDocument,
+  signer: ethers.Signer,
+  grant?: WrappedKey | null,
+): Promise<Uint8Array> => {
+  const address = (await signer.getAddress()).toLowerCase();
+  const wrapped = envelope.keys.find((key) => key.recipient === address) ?? grant;
+  if (!wrapped) {
+    throw new Error('You have not been given access to this document');
+  }
+  return unwrapKey(wrapped, await deriveEncryptionKey(signer));
+};
+
+/**
+ * Encrypt a document so only `recipients` can read it. Include the author,
+ * or they lose access to what they wrote.
+ */
+export const encryptDocument = async <K extends DocumentKind>(
+  kind: K,
+  document: DocumentOf<K>,
+  recipients: EncryptionRecipient[],
+): Promise<EncryptedDocument> => {
+  const contentKey = ethers.randomBytes(32);
+  const iv = bytes(ethers.randomBytes(12));
+  const plaintext = bytes(ethers.toUtf8Bytes(JSON.stringify(document)));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await aesKey(contentKey, ['encrypt']),
+    plaintext,
+  );
+
+  return {
+    schemaVersion: 1,
+    kind,
+    algorithm: 'aes-256-gcm',
+    iv: ethers.encodeBase64(iv),
+    ciphertext: ethers.encodeBase64(new Uint8Array(ciphertext)),
+    keys: await Promise.all(recipients.map((recipient) => wrapKey(contentKey, recipient))),
+  };
+};
+
+/**
+ * Decrypt a document with the connected wallet's key. `grant` is the key
+ * shared after the document was written; keys in the envelope are tried
+ * first. Older document versions are migrated like plain ones.
+ */
+export const decryptDocument = async <K extends DocumentKind>(
+  kind: K,
+  envelope: EncryptedDocument,
+  signer: ethers.Signer,
+  grant?: WrappedKey | null,
+): Promise<DocumentOf<K>> => {
+  const contentKey = await contentKeyFor(envelope, signer, grant);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes(ethers.decodeBase64(envelope.iv)) },
+    await aesKey(contentKey, ['decrypt']),
+    bytes(ethers.decodeBase64(envelope.ciphertext)),
+  );
+
+  const result = parseDocument(kind, JSON.parse(ethers.toUtf8String(new Uint8Array(plaintext))));
+  if (!result.success) {
+    throw new Error(`Decrypted ${kind} document is invalid`);
+  }
+  return result.data;
+};
+
+/**
+ * Wrap a document's content key for more readers, such as the assigned
+ * worker or a dispute resolver. The caller must hold a key themselves.
+ */
+export const shareDocumentKey = async (
+  envelope: EncryptedDocument,
+  signer: ethers.Signer,
+  recipients: EncryptionRecipient[],
+  grant?: WrappedKey | null,
+): Promise<WrappedKey[]> => {
+  const contentKey = await contentKeyFor(envelope, signer, grant);
+  return Promise.all(recipients.map((recipient) => wrapKey(contentKey, recipient)));
+};
@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { parseCID } from '@shared/cid';
 
 /**
  * Security utilities for frontend protection
@@ -22,9 +23,9 @@ export const isValidAddress = (address: string): boolean => {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 };
 
-// Validate IPFS CID
+// Validate IPFS CID (v0 or v1, any codec), parsed the same way as the backend
 export const isValidCID = (cid: string): boolean => {
-  return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid) || /^bafy[a-z0-9]{55}$/.test(cid);
+  return parseCID(cid) !== null;
 };
 
 // Check for phishing indicators
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { EyeOff, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useWeb3 } from '@/contexts/Web3Context'
+import { useIsAdmin } from '@/hooks/useIsAdmin'
+import {
+  AuditEntry,
+  fetchModerationAudit,
+  fetchModerationQueue,
+  ModerationAction,
+  ModerationItem,
+  ModerationStatus,
+  moderateItem,
+} from '@/lib/api'
+import { getTaskManager } from '@/lib/contracts'
+
+const STATUS_TABS: Array<{ status: ModerationStatus; label: string }> = [
+  { status: 'open', label: 'Open' },
+  { status: 'hidden', label: 'Hidden' },
+  { status: 'cancelRecommended', label: 'Cancel recommended' },
+  { status: 'dismissed', label: 'Dismissed' },
+]
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  flag: 'Flagged',
+  report: 'Reported',
+  dismiss: 'Dismissed',
+  hide: 'Hidden',
+  recommendCancel: 'Cancel recommended',
+}
+
+const shorten = (value: string) => (value.length > 12 ? `${value.slice(0, 6)}...${value.slice(-4)}` : value)
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString()
+
+export const AdminPage = () => {
+  const { isConnected, isAuthenticated } = useWeb3()
+  const isAdmin = useIsAdmin()
+
+  if (!isConnected) {
+    return <div className="card text-gray-600 dark:text-gray-400">Connect your wallet to open the admin console.</div>
+  }
+  if (isAdmin === null) {
+    return <div className="card text-gray-500 dark:text-gray-400">Checking admin role...</div>
+  }
+  if (!isAdmin) {
+    return <div className="card text-red-500">This page requires ADMIN_ROLE on TaskManager.</div>
+  }
+  if (!isAuthenticated) {
+    return <div className="card text-gray-600 dark:text-gray-400">Sign in to review the moderation queue.</div>
+  }
+
+  return <ModerationConsole />
+}
+
+const ModerationConsole = () => {
+  const [status, setStatus] = useState<ModerationStatus>('open')
+  const [items, setItems] = useState<ModerationItem[]>([])
+  const [audit, setAudit] = useState<AuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [queue, entries] = await Promise.all([fetchModerationQueue(status), fetchModerationAudit()])
+      setItems(queue)
+      setAudit(entries)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load the moderation queue')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Moderation</h1>
+
+      <div className="flex gap-2 flex-wrap">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={`btn ${status === tab.status ? 'btn-primary' : 'btn-outline'}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading && <p className="text-gray-500 dark:text-gray-400">Loading queue...</p>}
+      {!isLoading && items.length === 0 && <p className="text-gray-500 dark:text-gray-400">Nothing here.</p>}
+      {items.map((item) => (
+        <QueueItem key={item.id} item={item} onChange={load} />
+      ))}
+
+      <AuditLog entries={audit} />
+    </div>
+  )
+}
+
+const QueueItem = ({ item, onChange }: { item: ModerationItem; onChange: () => void }) => {
+  const { signer } = useWeb3()
+  const [pending, setPending] = useState<ModerationAction | 'cancel' | null>(null)
+
+  const act = async (action: ModerationAction) => {
+    const note = window.prompt('Note for the audit log (optional)')
+    if (note === null) return
+    setPending(action)
+    try {
+      await moderateItem(item.id, action, note || undefined)
+      toast.success(ACTION_LABELS[action])
+      onChange()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Action failed')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  // Cancelling is an on-chain transaction the admin signs; the backend only recommends it
+  const cancelOnChain = async () => {
+    if (!signer || item.subject.type !== 'task') return
+    if (!window.confirm(`Cancel task #${item.subject.taskId} on-chain and refund its bounty?`)) return
+
+    setPending('cancel')
+    try {
+      const tx = await getTaskManager(signer).cancelTask(item.subject.taskId)
+      await tx.wait()
+      toast.success('Task cancelled')
+    } catch (error: any) {
+      toast.error(error.shortMessage || error.message || 'Transaction failed')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const { subject, task } = item
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          {subject.type === 'task' ? (
+            <Link to={`/tasks/${subject.taskId}`} className="text-lg font-bold text-primary-600">
+              Task #{subject.taskId}
+              {task?.title ? `: ${task.title}` : ''}
+            </Link>
+          ) : (
+            <Link to={`/profile/${subject.address}`} className="text-lg font-bold text-primary-600 font-mono">
+              User {shorten(subject.address)}
+            </Link>
+          )}
+          {task && (
+            <p className="text-sm text-gray-500">
+              {task.status} · created by <span className="font-mono">{shorten(task.creator)}</span>
+            </p>
+          )}
+        </div>
+        <span className="text-xs text-gray-500 whitespace-nowrap">Updated {formatTime(item.updatedAt)}</span>
+      </div>
+
+      <ul className="space-y-3 text-sm">
+        {item.flags.map((flag, index) => (
+          <li key={index} className="border-l-4 border-gray-200 dark:border-gray-700 pl-3">
+            <div className="flex items-center gap-2 text-gray-900 dark:text-white font-medium">
+              <ShieldAlert size={14} />
+              {flag.source === 'fraud'
+                ? `Fraud score ${flag.fraud?.score ?? '?'} / 100 (${flag.fraud?.level ?? 'unknown'})`
+                : `Reported by ${shorten(flag.reporter ?? 'unknown')}`}
+              <span className="text-xs text-gray-500 font-normal">{formatTime(flag.createdAt)}</span>
+            </div>
+            {flag.fraud ? (
+              <ul className="mt-1 space-y-1 text-gray-700 dark:text-gray-300">
+                {flag.fraud.signals.map((signal) => (
+                  <li key={signal.id} className="flex justify-between gap-4">
+                    <span>{signal.detail}</span>
+                    <span className="whitespace-nowrap text-gray-500">
+                      {signal.points} / {signal.maxPoints}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <ul className="mt-1 list-disc pl-5 text-gray-700 dark:text-gray-300">
+                {flag.reasons.map((reason, i) => (
+                  <li key={i}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-3 flex-wrap pt-2">
+        <button
+          onClick={() => act('dismiss')}
+          disabled={pending !== null || item.status === 'dismissed'}
+          className="btn btn-outline flex items-center gap-2 disabled:opacity-50"
+        >
+          <ShieldCheck size={16} /> Dismiss
+        </button>
+        <button
+          onClick={() => act('hide')}
+          disabled={pending !== null || item.status === 'hidden'}
+          className="btn btn-outline flex items-center gap-2 disabled:opacity-50"
+        >
+          <EyeOff size={16} /> Hide from listings
+        </button>
+        {subject.type === 'task' && (
+          <button
+            onClick={() => act('recommendCancel')}
+            disabled={pending !== null || item.status === 'cancelRecommended'}
+            className="btn btn-outline flex items-center gap-2 disabled:opacity-50"
+          >
+            <XCircle size={16} /> Recommend cancel
+          </button>
+        )}
+        {item.status === 'cancelRecommended' && task && ['Open', 'Assigned'].includes(task.status) && (
+          <button
+            onClick={cancelOnChain}
+            disabled={!signer || pending !== null}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {pending === 'cancel' ? 'Cancelling...' : 'Cancel task on-chain'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const AuditLog = ({ entries }: { entries: AuditEntry[] }) => (
+  <div className="card">
+    <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Audit log</h2>
+    {entries.length === 0 ? (
+      <p className="text-gray-500 dark:text-gray-400">No entries yet.</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-2">Time</th>
+            <th>Item</th>
+            <th>Action</th>
+            <th>By</th>
+            <th>Note</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-700 dark:text-gray-300">
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-t border-gray-200 dark:border-gray-700">
+              <td className="py-2 whitespace-nowrap">{formatTime(entry.at)}</td>
+              <td>#{entry.itemId}</td>
+              <td>{ACTION_LABELS[entry.action]}</td>
+              <td className="font-mono">{entry.actor === 'system' ? 'system' : shorten(entry.actor)}</td>
+              <td>{entry.note}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+)
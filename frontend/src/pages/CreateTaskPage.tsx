@@ -1 +1,200 @@
-export const CreateTaskPage = () => <div className="card"><h1 className="text-2xl font-bold">Create Task Page</h1></div>
+import { useEffect, useRef, useState } from 'react'
+import { Plus, Sparkles, Square, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useWeb3 } from '@/contexts/Web3Context'
+import { AIProvenance, streamTaskTemplate, TaskTemplate } from '@/lib/api'
+
+type DraftField = keyof TaskTemplate
+
+const EMPTY_DRAFT: TaskTemplate = {
+  title: '',
+  description: '',
+  requirements: [],
+  deliverables: [],
+}
+
+export const CreateTaskPage = () => {
+  const { isAuthenticated, isSigningIn, signIn } = useWeb3()
+  const [brief, setBrief] = useState('')
+  const [draft, setDraft] = useState<TaskTemplate>(EMPTY_DRAFT)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [provenance, setProvenance] = useState<AIProvenance | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  // Fields the user has edited are no longer overwritten by the stream
+  const editedRef = useRef(new Set<DraftField>())
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const applyGenerated = (generated: Partial<TaskTemplate>) => {
+    setDraft((current) => {
+      const next = { ...current }
+      for (const field of Object.keys(generated) as DraftField[]) {
+        if (!editedRef.current.has(field)) {
+          Object.assign(next, { [field]: generated[field] })
+        }
+      }
+      return next
+    })
+  }
+
+  const updateField = <K extends DraftField>(field: K, value: TaskTemplate[K]) => {
+    editedRef.current.add(field)
+    setDraft((current) => ({ ...current, [field]: value }))
+  }
+
+  const generate = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    editedRef.current.clear()
+    setDraft(EMPTY_DRAFT)
+    setProvenance(null)
+    setIsGenerating(true)
+
+    try {
+      const result = await streamTaskTemplate(brief, {
+        signal: controller.signal,
+        onPartial: (partial) => applyGenerated({ ...EMPTY_DRAFT, ...partial }),
+      })
+      applyGenerated(result.template)
+      setProvenance(result.provenance)
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        toast.error(error.message || 'Failed to generate a draft')
+      }
+    } finally {
+      abortRef.current = null
+      setIsGenerating(false)
+    }
+  }
+
+  const cancel = () => {
+    abortRef.current?.abort()
+    toast('Generation stopped. You can keep editing the partial draft.')
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Create Task</h1>
+
+      <div className="card space-y-4">
+        <label className="label" htmlFor="brief">Describe what you need</label>
+        <textarea
+          id="brief"
+          rows={3}
+          value={brief}
+          onChange={(e) => setBrief(e.target.value)}
+          placeholder="e.g. A landing page for our NFT drop with a mint button and countdown"
+          className="input"
+        />
+
+        <div className="flex gap-3">
+          {!isAuthenticated ? (
+            <button onClick={signIn} disabled={isSigningIn} className="btn btn-outline">
+              {isSigningIn ? 'Signing in...' : 'Sign in to draft with AI'}
+            </button>
+          ) : isGenerating ? (
+            <button onClick={cancel} className="btn btn-secondary flex items-center gap-2">
+              <Square size={16} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={generate}
+              disabled={!brief.trim()}
+              className="btn btn-primary flex items-center gap-2 disabled:opacity-50"
+            >
+              <Sparkles size={16} /> Draft with AI
+            </button>
+          )}
+        </div>
+      </div>
+
+      {provenance?.source === 'fallback' && (
+        <div className="p-4 rounded-lg bg-yellow-50 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+          The AI draft could not be generated. The fields below are placeholders copied from your brief.
+        </div>
+      )}
+      {provenance && provenance.safety.injection.length > 0 && (
+        <div className="p-4 rounded-lg bg-red-50 text-red-800 dark:bg-red-900 dark:text-red-200">
+          Your brief contains text that looks like instructions to the AI. It was treated as plain content.
+        </div>
+      )}
+
+      <div className="card space-y-4">
+        <div>
+          <label className="label" htmlFor="title">Title</label>
+          <input
+            id="title"
+            value={draft.title}
+            onChange={(e) => updateField('title', e.target.value)}
+            className="input"
+          />
+        </div>
+
+        <div>
+          <label className="label" htmlFor="description">Description</label>
+          <textarea
+            id="description"
+            rows={6}
+            value={draft.description}
+            onChange={(e) => updateField('description', e.target.value)}
+            className="input"
+          />
+        </div>
+
+        <ListField
+          label="Requirements"
+          items={draft.requirements}
+          onChange={(items) => updateField('requirements', items)}
+        />
+        <ListField
+          label="Deliverables"
+          items={draft.deliverables}
+          onChange={(items) => updateField('deliverables', items)}
+        />
+
+        {isGenerating && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">Drafting...</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ListFieldProps {
+  label: string
+  items: string[]
+  onChange: (items: string[]) => void
+}
+
+const ListField = ({ label, items, onChange }: ListFieldProps) => (
+  <div>
+    <span className="label">{label}</span>
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            value={item}
+            aria-label={`${label} ${index + 1}`}
+            onChange={(e) => onChange(items.map((value, i) => (i === index ? e.target.value : value)))}
+            className="input"
+          />
+          <button
+            type="button"
+            aria-label={`Remove ${label.toLowerCase()} ${index + 1}`}
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className="text-gray-400 hover:text-red-500"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...items, ''])}
+        className="text-sm text-primary-600 flex items-center gap-1"
+      >
+        <Plus size={16} /> Add
+      </button>
+    </div>
+  </div>
+)
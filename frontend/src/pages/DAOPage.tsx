@@ -1 +1,189 @@
-export const DAOPage = () => <div className="card"><h1 className="text-2xl font-bold">DAO Governance Page</h1></div>
+import { useEffect, useState } from 'react'
+import { ExternalLink, FileText } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useWeb3 } from '@/contexts/Web3Context'
+import { DisputeProposal, DisputeSummary, fetchDisputes, summarizeDispute } from '@/lib/api'
+import { isValidCID } from '@/lib/security'
+
+const IPFS_GATEWAY = import.meta.env.VITE_IPFS_GATEWAY || 'https://ipfs.io/ipfs/'
+
+const shorten = (value: string) => (value.length > 12 ? `${value.slice(0, 6)}...${value.slice(-4)}` : value)
+
+export const DAOPage = () => {
+  const [proposals, setProposals] = useState<DisputeProposal[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchDisputes()
+      .then(setProposals)
+      .catch((err) => setError(err.response?.data?.message || 'Failed to load dispute proposals'))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">DAO Governance</h1>
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Dispute Proposals</h2>
+
+      {isLoading && <p className="text-gray-500 dark:text-gray-400">Loading disputes...</p>}
+      {error && <p className="text-red-500">{error}</p>}
+      {!isLoading && !error && proposals.length === 0 && (
+        <p className="text-gray-500 dark:text-gray-400">No dispute proposals yet.</p>
+      )}
+
+      {proposals.map((proposal) => (
+        <DisputeRow key={proposal.proposalId} proposal={proposal} />
+      ))}
+    </div>
+  )
+}
+
+const DisputeRow = ({ proposal }: { proposal: DisputeProposal }) => (
+  <div className="grid lg:grid-cols-2 gap-6">
+    <div className="card space-y-3">
+      <div className="flex justify-between items-start">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white">Task #{proposal.taskId}</h3>
+        <span className="px-3 py-1 bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200 rounded-full text-sm font-medium">
+          {proposal.resolved ? `Resolved for ${proposal.favorCreator ? 'creator' : 'worker'}` : proposal.state ?? 'Unknown'}
+        </span>
+      </div>
+
+      <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
+        <div className="flex justify-between">
+          <span>Proposal:</span>
+          <span className="font-mono">{shorten(proposal.proposalId)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Creator:</span>
+          <span className="font-mono">{shorten(proposal.creator)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Worker:</span>
+          <span className="font-mono">{shorten(proposal.worker)}</span>
+        </div>
+      </div>
+
+      {isValidCID(proposal.evidenceHash) && (
+        <a
+          href={`${IPFS_GATEWAY}${proposal.evidenceHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-primary-600 flex items-center gap-1"
+        >
+          <ExternalLink size={14} /> Raw evidence
+        </a>
+      )}
+    </div>
+
+    <DisputeBriefPanel proposalId={proposal.proposalId} />
+  </div>
+)
+
+const STATUS_STYLES = {
+  met: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  unclear: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+}
+
+const DisputeBriefPanel = ({ proposalId }: { proposalId: string }) => {
+  const { isAuthenticated } = useWeb3()
+  const [summary, setSummary] = useState<DisputeSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const load = async () => {
+    setIsLoading(true)
+    try {
+      setSummary(await summarizeDispute(proposalId))
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to summarize the dispute')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!summary) {
+    return (
+      <div className="card flex flex-col items-center justify-center text-center gap-3">
+        <FileText className="text-gray-400" size={32} />
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          A neutral AI brief of the task spec, evidence and submission.
+        </p>
+        <button onClick={load} disabled={!isAuthenticated || isLoading} className="btn btn-primary disabled:opacity-50">
+          {isLoading ? 'Summarizing...' : isAuthenticated ? 'Summarize evidence' : 'Sign in to summarize'}
+        </button>
+      </div>
+    )
+  }
+
+  const { brief, provenance, missingDocuments } = summary
+
+  return (
+    <div className="card space-y-4 text-sm">
+      {provenance.source === 'fallback' && (
+        <p className="p-3 rounded-lg bg-yellow-50 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+          The AI brief is unavailable. Review the documents directly.
+        </p>
+      )}
+      {missingDocuments.length > 0 && (
+        <p className="p-3 rounded-lg bg-yellow-50 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+          Could not load from IPFS: {missingDocuments.join(', ')}
+        </p>
+      )}
+      {provenance.safety.injection.length > 0 && (
+        <p className="p-3 rounded-lg bg-red-50 text-red-800 dark:bg-red-900 dark:text-red-200">
+          Some documents contain text addressed to the AI. Read them before relying on this brief.
+        </p>
+      )}
+
+      <p className="text-gray-700 dark:text-gray-300">{brief.summary}</p>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <ClaimList title="Creator claims" claims={brief.creatorClaims} />
+        <ClaimList title="Worker claims" claims={brief.workerClaims} />
+      </div>
+
+      {brief.requirements.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900 dark:text-white mb-2">Requirements</h4>
+          <ul className="space-y-2">
+            {brief.requirements.map((item, index) => (
+              <li key={index} className="flex gap-2 items-start">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                  {item.status}
+                </span>
+                <span className="text-gray-700 dark:text-gray-300">
+                  {item.requirement}
+                  <span className="block text-xs text-gray-500">{item.notes}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {brief.openQuestions.length > 0 && (
+        <ClaimList title="Open questions" claims={brief.openQuestions} />
+      )}
+
+      <p className="text-xs text-gray-500">
+        Generated by {provenance.model ?? 'fallback'}. Advisory only; voters decide.
+      </p>
+    </div>
+  )
+}
+
+const ClaimList = ({ title, claims }: { title: string; claims: string[] }) => (
+  <div>
+    <h4 className="font-semibold text-gray-900 dark:text-white mb-2">{title}</h4>
+    {claims.length === 0 ? (
+      <p className="text-gray-500">None stated</p>
+    ) : (
+      <ul className="list-disc pl-5 space-y-1 text-gray-700 dark:text-gray-300">
+        {claims.map((claim, index) => (
+          <li key={index}>{claim}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+)
@@ -1 +1,268 @@
-export const TaskDetailPage = () => <div className="card"><h1 className="text-2xl font-bold">Task Detail Page</h1></div>
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { ethers } from 'ethers'
+import { ClipboardCheck, Flag, Paperclip } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { EncryptedDocumentPanel } from '@/components/tasks/EncryptedDocumentPanel'
+import { useWeb3 } from '@/contexts/Web3Context'
+import {
+  fetchTask,
+  FileReference,
+  fileUrl,
+  reportContent,
+  reviewSubmission,
+  SubmissionReview,
+  Task,
+  TaskMetadata,
+} from '@/lib/api'
+import { getTaskManager } from '@/lib/contracts'
+import { isValidCID } from '@/lib/security'
+
+export const TaskDetailPage = () => {
+  const { id } = useParams<{ id: string }>()
+  const { account, isAuthenticated } = useWeb3()
+  const [task, setTask] = useState<Task | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Private tasks have no public metadata; this is the brief once decrypted
+  const [decrypted, setDecrypted] = useState<TaskMetadata | null>(null)
+
+  useEffect(() => {
+    if (!id) return
+    fetchTask(id)
+      .then(setTask)
+      .catch((err) => setError(err.response?.data?.message || 'Failed to load task'))
+  }, [id])
+
+  if (error) return <div className="card text-red-500">{error}</div>
+  if (!task) return <div className="card text-gray-500 dark:text-gray-400">Loading task...</div>
+
+  const isCreator = !!account && account.toLowerCase() === task.creator.toLowerCase()
+  const metadata = task.metadata ?? decrypted
+
+  const report = async () => {
+    const reason = window.prompt('Why are you reporting this task?')
+    if (!reason?.trim()) return
+    try {
+      await reportContent({ type: 'task', taskId: task.id }, reason.trim())
+      toast.success('Thanks, a moderator will review this task')
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send the report')
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="card space-y-4">
+        <div className="flex justify-between items-start gap-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{metadata?.title ?? `Task #${task.id}`}</h1>
+          <span className="px-3 py-1 bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200 rounded-full text-sm font-medium">
+            {task.status}
+          </span>
+        </div>
+
+        <div className="grid sm:grid-cols-3 gap-4 text-sm text-gray-600 dark:text-gray-400">
+          <div>
+            <span className="block">Bounty</span>
+            <span className="font-semibold text-primary-600">{ethers.formatEther(task.bounty)} TASKZ</span>
+          </div>
+          <div>
+            <span className="block">Deadline</span>
+            <span className="font-semibold">{new Date(task.deadline * 1000).toLocaleDateString()}</span>
+          </div>
+          <div>
+            <span className="block">Category</span>
+            <span className="font-semibold">{task.category}</span>
+          </div>
+        </div>
+
+        {metadata?.description && (
+          <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{metadata.description}</p>
+        )}
+        <ItemList title="Requirements" items={metadata?.requirements} />
+        <ItemList title="Deliverables" items={metadata?.deliverables} />
+        <ItemList title="Acceptance criteria" items={metadata?.acceptanceCriteria} />
+        {metadata && metadata.skills.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {metadata.skills.map((skill) => (
+              <span key={skill} className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200">
+                {skill}
+              </span>
+            ))}
+          </div>
+        )}
+        <AttachmentList files={metadata?.attachments} />
+
+        {isAuthenticated && !isCreator && (
+          <button onClick={report} className="text-sm text-gray-500 hover:text-red-600 flex items-center gap-1">
+            <Flag size={14} /> Report task
+          </button>
+        )}
+      </div>
+
+      {!task.metadata && <EncryptedDocumentPanel task={task} document="brief" onDecrypt={setDecrypted} />}
+      {task.submissionHash && <EncryptedDocumentPanel task={task} document="submission" />}
+      {isCreator && task.status === 'Submitted' && <SubmissionReviewPanel task={task} />}
+    </div>
+  )
+}
+
+const ItemList = ({ title, items }: { title: string; items?: string[] }) =>
+  items && items.length > 0 ? (
+    <div>
+      <h2 className="font-semibold text-gray-900 dark:text-white mb-2">{title}</h2>
+      <ul className="list-disc pl-5 space-y-1 text-gray-700 dark:text-gray-300">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  ) : null
+
+const AttachmentList = ({ files }: { files?: FileReference[] }) =>
+  files && files.length > 0 ? (
+    <div>
+      <h2 className="font-semibold text-gray-900 dark:text-white mb-2">Attachments</h2>
+      <ul className="space-y-1">
+        {files.map((file) => (
+          <li key={file.cid}>
+            <a
+              href={fileUrl(file.cid)}
+              target="_blank"
+              rel="noreferrer"
+              className="text-primary-600 hover:underline flex items-center gap-1"
+            >
+              <Paperclip size={14} /> {file.name}
+              <span className="text-xs text-gray-500">({Math.ceil(file.size / 1024)} KB)</span>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  ) : null
+
+const STATUS_STYLES = {
+  met: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  partial: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  missing: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+}
+
+const SubmissionReviewPanel = ({ task }: { task: Task }) => {
+  const { signer, isAuthenticated } = useWeb3()
+  const [review, setReview] = useState<SubmissionReview | null>(null)
+  const [isReviewing, setIsReviewing] = useState(false)
+  const [pendingAction, setPendingAction] = useState<'approve' | 'dispute' | null>(null)
+
+  const runReview = async () => {
+    setIsReviewing(true)
+    try {
+      setReview(await reviewSubmission(task.id))
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to review the submission')
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  // Both actions are transactions the creator signs; the review never triggers them
+  const act = async (action: 'approve' | 'dispute') => {
+    if (!signer) return
+    const question =
+      action === 'approve'
+        ? 'Approve this submission and release the bounty to the worker?'
+        : 'Open a dispute for this submission?'
+    if (!window.confirm(question)) return
+
+    setPendingAction(action)
+    try {
+      const taskManager = getTaskManager(signer)
+      const tx = action === 'approve' ? await taskManager.approveTask(task.id) : await taskManager.initiateDispute(task.id)
+      await tx.wait()
+      toast.success(action === 'approve' ? 'Submission approved' : 'Dispute opened')
+    } catch (error: any) {
+      toast.error(error.shortMessage || error.message || 'Transaction failed')
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Submission</h2>
+        {task.submissionHash && isValidCID(task.submissionHash) && (
+          <a
+            href={`${import.meta.env.VITE_IPFS_GATEWAY || 'https://ipfs.io/ipfs/'}${task.submissionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-primary-600"
+          >
+            Open submission
+          </a>
+        )}
+      </div>
+
+      {!review ? (
+        <button
+          onClick={runReview}
+          disabled={!isAuthenticated || isReviewing}
+          className="btn btn-outline flex items-center gap-2 disabled:opacity-50"
+        >
+          <ClipboardCheck size={16} />
+          {isReviewing ? 'Reviewing...' : isAuthenticated ? 'Get AI review' : 'Sign in for an AI review'}
+        </button>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <p className="p-3 rounded-lg bg-blue-50 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+            This review is advice only. It never approves a task; approving or disputing is your decision.
+          </p>
+          {review.provenance.source === 'fallback' && (
+            <p className="p-3 rounded-lg bg-yellow-50 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+              The AI review is unavailable. Check the submission yourself.
+            </p>
+          )}
+          {review.provenance.safety.injection.length > 0 && (
+            <p className="p-3 rounded-lg bg-red-50 text-red-800 dark:bg-red-900 dark:text-red-200">
+              The submission contains text addressed to the AI. Treat this review with extra caution.
+            </p>
+          )}
+
+          <p className="text-gray-700 dark:text-gray-300">{review.summary}</p>
+
+          <ul className="space-y-2">
+            {review.checklist.map((entry) => (
+              <li key={entry.id} className="flex gap-3 items-start">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                  {entry.status}
+                </span>
+                <span className="flex-1 text-gray-700 dark:text-gray-300">
+                  <span className="font-medium">{entry.item}</span>
+                  <span className="block text-xs text-gray-500">{entry.reason}</span>
+                </span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {Math.round(entry.confidence * 100)}% confident
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-2">
+        <button
+          onClick={() => act('approve')}
+          disabled={!signer || pendingAction !== null}
+          className="btn btn-primary disabled:opacity-50"
+        >
+          {pendingAction === 'approve' ? 'Approving...' : 'Approve'}
+        </button>
+        <button
+          onClick={() => act('dispute')}
+          disabled={!signer || pendingAction !== null}
+          className="btn btn-outline disabled:opacity-50"
+        >
+          {pendingAction === 'dispute' ? 'Opening dispute...' : 'Open dispute'}
+        </button>
+      </div>
+    </div>
+  )
+}
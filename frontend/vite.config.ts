@@ -8,6 +8,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Document schemas shared with the backend
+      '@shared': path.resolve(__dirname, '../backend/src/shared'),
     },
   },
   server: {